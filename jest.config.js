@@ -6,6 +6,10 @@ module.exports = {
   transform: {
     '^.+\\.ts$': 'ts-jest',
   },
+  // web-features is an ES module that reads its JSON through import.meta, which jest cannot run
+  moduleNameMapper: {
+    '^web-features$': '<rootDir>/node_modules/web-features/index.json',
+  },
   collectCoverageFrom: [
     'src/**/*.ts',
     '!src/**/*.d.ts',
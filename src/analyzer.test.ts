@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CLIAnalyzer, CLIAnalysisResult } from './analyzer';
+import { CLIConfig, CLIConfigData } from './config';
+
+describe('CLIAnalyzer', () => {
+    const dirs: string[] = [];
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+    afterAll(() => dirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })));
+
+    async function analyzeProject(files: { [name: string]: string }, options: Partial<CLIConfigData> = {}): Promise<CLIAnalysisResult> {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-lens-project-'));
+        dirs.push(dir);
+
+        for (const [name, content] of Object.entries(files)) {
+            fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+            fs.writeFileSync(path.join(dir, name), content);
+        }
+
+        const analyzer = new CLIAnalyzer(new CLIConfig().merge(options));
+        return analyzer.analyzeProject(dir);
+    }
+
+    describe('low-confidence findings', () => {
+        const files = { 'a.js': 'function f(x) { return x.at(-1); }\n' };
+
+        it('keeps them out of the risk distribution and the build result', async () => {
+            const result = await analyzeProject(files);
+            const analyzer = new CLIAnalyzer();
+
+            expect(result.features).toEqual([expect.objectContaining({ confidence: 'low' })]);
+            expect(result.features[0].baselineStatus.status).toBe('limited_availability');
+            expect(result.riskDistribution).toEqual({ low: 0, medium: 0, high: 0 });
+            expect(analyzer.shouldFailBuild(result, 'low')).toBe(false);
+        });
+
+        it('counts them when countLowConfidenceFeatures is enabled', async () => {
+            const result = await analyzeProject(files, { countLowConfidenceFeatures: true });
+            expect(result.riskDistribution.high).toBe(1);
+        });
+    });
+
+    describe('guarded findings', () => {
+        const files = { 'a.js': "if ('clipboard' in navigator) { navigator.clipboard.writeText(text); }\n" };
+
+        it('keeps them out of the risk distribution and the build result', async () => {
+            const result = await analyzeProject(files);
+
+            expect(result.guardedDistribution.high).toBeGreaterThan(0);
+            expect(result.riskDistribution.high).toBe(0);
+            expect(new CLIAnalyzer().shouldFailBuild(result, 'high')).toBe(false);
+        });
+
+        it('counts them when countGuardedFeatures is enabled', async () => {
+            const result = await analyzeProject(files, { countGuardedFeatures: true });
+            expect(result.riskDistribution.high).toBe(result.guardedDistribution.high);
+        });
+    });
+});
@@ -3,7 +3,14 @@ import * as path from 'path';
 import * as glob from 'glob';
 import { DetectedFeature, BaselineStatus, WebFeatureDetails, AnalysisError } from './types';
 import { CompatibilityDataService } from './services/compatibilityService';
-import { CLICSSAnalyzer, CLIJavaScriptAnalyzer, CLIHTMLAnalyzer } from './analyzers';
+import { CLICSSAnalyzer, CLIJavaScriptAnalyzer, CLIHTMLAnalyzer, CLIManifestAnalyzer, MockDocument, createRegionDocument } from './analyzers';
+import { EmbeddedRegion, mapFeaturesToHost } from './embeddedRegion';
+import { SFCSplitter } from './sfcSplitter';
+import { MarkdownSplitter } from './markdownSplitter';
+import { SourceMapResolver } from './sourceMapResolver';
+import { AnalyzerPlugin, PluginLoader } from './plugins';
+import { CustomRuleSet } from './customRules';
+import { ExecutionContextDetector, WorkerTarget } from './executionContext';
 import { CLIConfig, CLIAnalysisOptions } from './config';
 
 export interface CLIAnalysisResult {
@@ -21,6 +28,16 @@ export interface CLIAnalysisResult {
         medium: number;
         high: number;
     };
+    guardedDistribution: {
+        low: number;
+        medium: number;
+        high: number;
+    };
+    documentationDistribution: {
+        low: number;
+        medium: number;
+        high: number;
+    };
     fileTypeBreakdown: {
         [fileType: string]: number;
     };
@@ -37,14 +54,33 @@ export class CLIAnalyzer {
     private cssAnalyzer: CLICSSAnalyzer;
     private jsAnalyzer: CLIJavaScriptAnalyzer;
     private htmlAnalyzer: CLIHTMLAnalyzer;
+    private manifestAnalyzer: CLIManifestAnalyzer;
+    private plugins: AnalyzerPlugin[];
+    private customRules: CustomRuleSet;
+    private workerTargets: WorkerTarget[] = [];
+    private projectRoot: string = process.cwd();
+    // Source maps of bundles, parsed once when finding files and reused when analyzing them
+    private sourceMaps: Map<string, SourceMapResolver | null> = new Map();
     private config: CLIConfig;
 
     constructor(config?: CLIConfig) {
         this.config = config || new CLIConfig();
         this.compatibilityService = new CompatibilityDataService();
-        this.cssAnalyzer = new CLICSSAnalyzer(this.compatibilityService);
-        this.jsAnalyzer = new CLIJavaScriptAnalyzer(this.compatibilityService);
-        this.htmlAnalyzer = new CLIHTMLAnalyzer(this.compatibilityService);
+        this.customRules = new CustomRuleSet(this.config.customRules, this.compatibilityService);
+        this.cssAnalyzer = new CLICSSAnalyzer(this.compatibilityService, this.customRules);
+        this.jsAnalyzer = new CLIJavaScriptAnalyzer(
+            this.compatibilityService,
+            this.config.enabledAnalyzers.css ? this.cssAnalyzer : undefined,
+            this.customRules
+        );
+        this.htmlAnalyzer = new CLIHTMLAnalyzer(
+            this.compatibilityService,
+            this.config.enabledAnalyzers.css ? this.cssAnalyzer : undefined,
+            this.config.enabledAnalyzers.javascript ? this.jsAnalyzer : undefined,
+            this.customRules
+        );
+        this.manifestAnalyzer = new CLIManifestAnalyzer(this.compatibilityService);
+        this.plugins = PluginLoader.load(this.config.plugins, { compatibilityService: this.compatibilityService });
     }
 
     /**
@@ -60,7 +96,10 @@ export class CLIAnalyzer {
     async analyzeProject(projectPath: string, progressCallback?: (progress: number, message: string) => void): Promise<CLIAnalysisResult> {
         await this.initialize();
 
+        this.projectRoot = path.resolve(projectPath);
+        this.sourceMaps.clear();
         const files = await this.findSupportedFiles(projectPath);
+        this.workerTargets = this.findWorkerTargets(files);
         const allFeatures: DetectedFeature[] = [];
         const errors: AnalysisError[] = [];
         let analyzedFiles = 0;
@@ -91,7 +130,11 @@ export class CLIAnalyzer {
 
         // Generate summary statistics
         const summary = this.generateSummary(allFeatures);
-        const riskDistribution = this.calculateRiskDistribution(allFeatures);
+        const riskDistribution = this.calculateRiskDistribution(allFeatures.filter(f => this.countsTowardsRisk(f)));
+        const guardedDistribution = this.calculateRiskDistribution(allFeatures.filter(f => f.guarded));
+        const documentationDistribution = this.calculateRiskDistribution(
+            allFeatures.filter(f => f.documentation && this.isCounted(f))
+        );
         const fileTypeBreakdown = this.calculateFileTypeBreakdown(allFeatures);
 
         return {
@@ -101,6 +144,8 @@ export class CLIAnalyzer {
             errors,
             summary,
             riskDistribution,
+            guardedDistribution,
+            documentationDistribution,
             fileTypeBreakdown
         };
     }
@@ -140,11 +185,12 @@ export class CLIAnalyzer {
         }
 
         // Create a mock document object for analyzers
-        const mockDocument = {
+        const mockDocument: MockDocument = {
             fileName: filePath,
-            languageId: this.getLanguageId(extension),
+            languageId: this.getLanguageId(extension, filePath),
             getText: () => content,
-            uri: { fsPath: filePath }
+            uri: { fsPath: filePath },
+            executionContext: ExecutionContextDetector.matchWorkerTarget(this.workerTargets, filePath)
         };
 
         // Add timeout wrapper for analysis
@@ -156,40 +202,34 @@ export class CLIAnalyzer {
 
                 try {
                     const features: DetectedFeature[] = [];
+                    const plugin = this.findPlugin(extension);
                     
-                    switch (extension) {
-                        case '.css':
-                        case '.scss':
-                        case '.sass':
-                        case '.less':
-                            if (this.config.enabledAnalyzers.css) {
-                                const cssFeatures = await this.cssAnalyzer.analyze(content, mockDocument as any);
-                                features.push(...cssFeatures);
-                            }
-                            break;
-
-                        case '.js':
-                        case '.jsx':
-                        case '.ts':
-                        case '.tsx':
-                        case '.mjs':
-                            if (this.config.enabledAnalyzers.javascript) {
-                                const jsFeatures = await this.jsAnalyzer.analyze(content, mockDocument as any);
-                                features.push(...jsFeatures);
-                            }
-                            break;
-
-                        case '.html':
-                        case '.htm':
-                        case '.vue':
-                        case '.svelte':
-                            if (this.config.enabledAnalyzers.html) {
-                                const htmlFeatures = await this.htmlAnalyzer.analyze(content, mockDocument as any);
-                                features.push(...htmlFeatures);
-                            }
-                            break;
+                    if (plugin) {
+                        features.push(...await plugin.analyze(content, mockDocument));
+                    } else {
+                        switch (extension) {
+                            case '.vue':
+                                features.push(...await this.analyzeRegions(SFCSplitter.splitVue(content), mockDocument));
+                                break;
+
+                            case '.svelte':
+                                features.push(...await this.analyzeRegions(SFCSplitter.splitSvelte(content), mockDocument));
+                                break;
+
+                            case '.md':
+                            case '.mdx':
+                                features.push(...await this.analyzeRegions(MarkdownSplitter.split(content, extension === '.mdx'), mockDocument));
+                                break;
+
+                            default:
+                                features.push(...await this.analyzeByLanguage(content, mockDocument));
+                                break;
+                        }
                     }
 
+                    // Regex custom rules see the whole file, embedded code included
+                    features.push(...this.customRules.matchContent(content, this.getFeatureType(mockDocument.languageId), filePath));
+
                     clearTimeout(timeout);
                     resolve(features);
                 } catch (error) {
@@ -203,37 +243,124 @@ export class CLIAnalyzer {
             const analyzedFeatures = await analyzeWithTimeout();
             
             // Add file path to each feature
-            return analyzedFeatures.map(feature => ({
+            const features = analyzedFeatures.map(feature => ({
                 ...feature,
                 filePath
             }));
 
+            // Attribute features in a built bundle to the sources it was built from
+            const sourceMap = this.config.analyzeBundles ? this.loadSourceMap(filePath, content) : null;
+            return sourceMap ? features.map(feature => sourceMap.mapFeature(feature)) : features;
+
         } catch (error) {
             throw new Error(`Failed to analyze ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
         }
     }
 
+    /**
+     * Collect the scripts the project starts as workers, so they are analyzed
+     * in their worker's context rather than a window's
+     */
+    private findWorkerTargets(files: string[]): WorkerTarget[] {
+        const targets: WorkerTarget[] = [];
+        const languages = ['javascript', 'javascriptreact', 'typescript', 'typescriptreact', 'html', 'vue', 'svelte'];
+
+        for (const filePath of files) {
+            if (!languages.includes(this.getLanguageId(path.extname(filePath).toLowerCase()))) {
+                continue;
+            }
+
+            try {
+                targets.push(...ExecutionContextDetector.findWorkerTargets(fs.readFileSync(filePath, 'utf8'), filePath));
+            } catch (error) {
+                // Unreadable files are reported when they are analyzed
+            }
+        }
+
+        return targets;
+    }
+
+    /**
+     * Run the analyzer for a document's language, if that analyzer is enabled
+     */
+    private async analyzeByLanguage(content: string, document: MockDocument): Promise<DetectedFeature[]> {
+        switch (document.languageId) {
+            case 'css':
+            case 'scss':
+            case 'sass':
+            case 'less':
+                return this.config.enabledAnalyzers.css ? this.cssAnalyzer.analyze(content, document) : [];
+
+            case 'javascript':
+            case 'javascriptreact':
+            case 'typescript':
+            case 'typescriptreact':
+                return this.config.enabledAnalyzers.javascript ? this.jsAnalyzer.analyze(content, document) : [];
+
+            case 'html':
+            case 'svg':
+            case 'svelte':
+                return this.config.enabledAnalyzers.html ? this.htmlAnalyzer.analyze(content, document) : [];
+
+            case 'webmanifest':
+                return this.config.enabledAnalyzers.html ? this.manifestAnalyzer.analyze(content, document) : [];
+
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * Analyze the blocks of a single-file component separately and report their
+     * features at positions in the host file
+     */
+    private async analyzeRegions(regions: EmbeddedRegion[], hostDocument: MockDocument): Promise<DetectedFeature[]> {
+        const features: DetectedFeature[] = [];
+
+        for (const region of regions) {
+            const regionFeatures = await this.analyzeByLanguage(region.content, createRegionDocument(hostDocument, region));
+            if (region.documentation) {
+                regionFeatures.forEach(feature => feature.documentation = true);
+            }
+            features.push(...mapFeaturesToHost(regionFeatures, region));
+        }
+
+        return features;
+    }
+
+    /**
+     * Get the plugin that handles an extension. Plugins registered later win.
+     */
+    private findPlugin(extension: string): AnalyzerPlugin | undefined {
+        return [...this.plugins].reverse().find(plugin => plugin.extensions.includes(extension));
+    }
+
     /**
      * Find all supported files in the project directory
      */
     private async findSupportedFiles(projectPath: string): Promise<string[]> {
-        const supportedExtensions = [
-            '**/*.css', '**/*.scss', '**/*.sass', '**/*.less',
-            '**/*.js', '**/*.jsx', '**/*.ts', '**/*.tsx', '**/*.mjs',
-            '**/*.html', '**/*.htm', '**/*.vue', '**/*.svelte'
-        ];
+        const supportedExtensions = this.config.analyzeBundles
+            ? ['**/*.js', '**/*.mjs', '**/*.css']
+            : [
+                '**/*.css', '**/*.scss', '**/*.sass', '**/*.less',
+                '**/*.js', '**/*.jsx', '**/*.ts', '**/*.tsx', '**/*.mjs',
+                '**/*.html', '**/*.htm', '**/*.svg', '**/*.vue', '**/*.svelte', '**/*.md', '**/*.mdx',
+                '**/*.webmanifest', '**/manifest.json',
+                ...this.plugins.flatMap(plugin => plugin.extensions.map(extension => `**/*${extension}`))
+            ];
 
         const includePatterns = this.config.includePatterns.length > 0 
             ? this.config.includePatterns 
             : supportedExtensions;
 
+        // Bundles live in the build output folders that source analysis skips
+        const buildOutputPatterns = ['**/dist/**', '**/build/**'];
         const excludePatterns = [
             '**/node_modules/**',
-            '**/dist/**',
-            '**/build/**',
+            ...(this.config.analyzeBundles ? [] : buildOutputPatterns),
             '**/coverage/**',
             '**/.git/**',
-            ...this.config.excludePatterns
+            ...this.config.excludePatterns.filter(pattern => !this.config.analyzeBundles || !buildOutputPatterns.includes(pattern))
         ];
 
         const allFiles: string[] = [];
@@ -263,13 +390,40 @@ export class CLIAnalyzer {
             }
         }
 
-        return filteredFiles;
+        // Source files would otherwise be reported twice, directly and through the bundle's map
+        return this.config.analyzeBundles
+            ? filteredFiles.filter(file => this.isBuildOutput(file, projectPath))
+            : filteredFiles;
+    }
+
+    /**
+     * Check whether a file is build output: it is in a dist/ or build/ folder, or
+     * has a source map of its own
+     */
+    private isBuildOutput(filePath: string, projectPath: string): boolean {
+        const folders = path.relative(projectPath, filePath).split(path.sep).slice(0, -1);
+        if (folders.includes('dist') || folders.includes('build')) {
+            return true;
+        }
+
+        try {
+            return this.loadSourceMap(filePath, fs.readFileSync(filePath, 'utf8')) !== null;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    private loadSourceMap(filePath: string, content: string): SourceMapResolver | null {
+        if (!this.sourceMaps.has(filePath)) {
+            this.sourceMaps.set(filePath, SourceMapResolver.load(filePath, content, this.projectRoot));
+        }
+        return this.sourceMaps.get(filePath)!;
     }
 
     /**
      * Get language ID from file extension
      */
-    private getLanguageId(extension: string): string {
+    private getLanguageId(extension: string, filePath?: string): string {
         const languageMap: { [key: string]: string } = {
             '.css': 'css',
             '.scss': 'scss',
@@ -282,13 +436,40 @@ export class CLIAnalyzer {
             '.mjs': 'javascript',
             '.html': 'html',
             '.htm': 'html',
+            '.svg': 'svg',
             '.vue': 'vue',
-            '.svelte': 'svelte'
+            '.svelte': 'svelte',
+            '.md': 'markdown',
+            '.mdx': 'mdx',
+            '.webmanifest': 'webmanifest'
         };
 
+        const plugin = this.findPlugin(extension);
+        if (plugin) {
+            return plugin.languageId || extension.slice(1);
+        }
+
+        // Web app manifests are often plain JSON files named manifest.json
+        if (filePath && path.basename(filePath).toLowerCase() === 'manifest.json') {
+            return 'webmanifest';
+        }
+
         return languageMap[extension] || 'plaintext';
     }
 
+    /**
+     * Get the feature type reported for matches in a whole file
+     */
+    private getFeatureType(languageId: string): DetectedFeature['type'] {
+        if (['css', 'scss', 'sass', 'less'].includes(languageId)) {
+            return 'css';
+        }
+        if (['html', 'svg', 'vue', 'svelte', 'markdown', 'mdx', 'webmanifest'].includes(languageId)) {
+            return 'html';
+        }
+        return 'javascript';
+    }
+
     /**
      * Generate summary statistics
      */
@@ -339,6 +520,26 @@ export class CLIAnalyzer {
         return distribution;
     }
 
+    /**
+     * Check whether a feature counts towards the risk distribution. Code blocks in
+     * documentation do not when they have a policy of their own.
+     */
+    private countsTowardsRisk(feature: DetectedFeature): boolean {
+        if (feature.documentation && this.config.separateDocumentation) {
+            return false;
+        }
+        return this.isCounted(feature);
+    }
+
+    /**
+     * Usages behind feature detection or `@supports`, and low-confidence matches
+     * such as calls on receivers of unknown type, only count when configured to
+     */
+    private isCounted(feature: DetectedFeature): boolean {
+        return (!feature.guarded || this.config.countGuardedFeatures) &&
+            (feature.confidence !== 'low' || this.config.countLowConfidenceFeatures);
+    }
+
     /**
      * Calculate file type breakdown
      */
@@ -356,13 +557,22 @@ export class CLIAnalyzer {
      * Determine if build should fail based on analysis results
      */
     shouldFailBuild(result: CLIAnalysisResult, failOn: string): boolean {
+        if (this.exceedsFailOn(result.riskDistribution, failOn)) {
+            return true;
+        }
+
+        return this.config.separateDocumentation &&
+            this.exceedsFailOn(result.documentationDistribution, this.config.documentationFailOn);
+    }
+
+    private exceedsFailOn(distribution: CLIAnalysisResult['riskDistribution'], failOn: string): boolean {
         switch (failOn.toLowerCase()) {
             case 'high':
-                return result.riskDistribution.high > 0;
+                return distribution.high > 0;
             case 'medium':
-                return result.riskDistribution.medium > 0 || result.riskDistribution.high > 0;
+                return distribution.medium > 0 || distribution.high > 0;
             case 'low':
-                return result.features.length > 0;
+                return distribution.low > 0 || distribution.medium > 0 || distribution.high > 0;
             default:
                 return false;
         }
@@ -386,6 +596,11 @@ export class CLIAnalyzer {
             messages.push(`${result.riskDistribution.low} low-risk features detected`);
         }
 
+        if (this.config.separateDocumentation &&
+            this.exceedsFailOn(result.documentationDistribution, this.config.documentationFailOn)) {
+            messages.push(`documentation code blocks exceed the ${this.config.documentationFailOn}-risk policy`);
+        }
+
         return messages.join(', ');
     }
 
@@ -450,7 +665,7 @@ export class CLIAnalyzer {
             
             // Add specific feature examples
             const highRiskFeatures = result.features
-                .filter(f => f.baselineStatus.status === 'limited_availability')
+                .filter(f => f.baselineStatus.status === 'limited_availability' && this.countsTowardsRisk(f))
                 .slice(0, 3);
             
             for (const feature of highRiskFeatures) {
@@ -462,6 +677,14 @@ export class CLIAnalyzer {
             messages.push(`⚠️  ${result.riskDistribution.medium} newly available features detected`);
         }
 
+        if (result.guardedDistribution.high > 0 && !this.config.countGuardedFeatures) {
+            messages.push(`ℹ️  ${result.guardedDistribution.high} high-risk usages are behind feature detection and were not counted`);
+        }
+
+        if (result.documentationDistribution.high > 0 && this.config.separateDocumentation) {
+            messages.push(`ℹ️  ${result.documentationDistribution.high} high-risk usages are in documentation code blocks and were checked against documentationFailOn (${this.config.documentationFailOn})`);
+        }
+
         if (result.errors.length > 0) {
             messages.push(`🔧 ${result.errors.length} files could not be analyzed due to syntax errors`);
         }
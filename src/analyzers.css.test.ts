@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CLIAnalyzer } from './analyzer';
+import { DetectedFeature } from './types';
+
+describe('CLICSSAnalyzer', () => {
+    const analyzer = new CLIAnalyzer();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-lens-css-'));
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        return analyzer.initialize();
+    });
+    afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    async function analyze(fileName: string, content: string): Promise<DetectedFeature[]> {
+        const filePath = path.join(dir, fileName);
+        fs.writeFileSync(filePath, content);
+        return analyzer.analyzeFile(filePath);
+    }
+
+    function findKey(features: DetectedFeature[], bcdKey: string): DetectedFeature | undefined {
+        return features.find(feature => feature.bcdKey === bcdKey);
+    }
+
+    describe('parsing', () => {
+        it('reports declarations at their position', async () => {
+            const features = await analyze('position.css', '.a {\n    aspect-ratio: 16 / 9;\n}\n');
+            const feature = findKey(features, 'css.properties.aspect-ratio');
+
+            expect(feature).toMatchObject({ line: 1, column: 4 });
+            expect(feature!.range).toEqual({ start: { line: 1, character: 4 }, end: { line: 1, character: 16 } });
+        });
+
+        it('does not take selectors, URLs or comments for properties', async () => {
+            const features = await analyze('noise.css', [
+                'a:hover { background: url(https://example.com/a.png); }',
+                '/* aspect-ratio: 1; */'
+            ].join('\n'));
+
+            expect(features.map(feature => feature.bcdKey)).not.toContain('css.properties.hover');
+            expect(features.map(feature => feature.bcdKey)).not.toContain('css.properties.https');
+            expect(findKey(features, 'css.properties.aspect-ratio')).toBeUndefined();
+        });
+
+        it('does not throw on invalid CSS', async () => {
+            await expect(analyze('invalid.css', '.a { color: red')).resolves.toBeInstanceOf(Array);
+        });
+    });
+
+    describe('at-rules', () => {
+        it('reports an at-rule with a range covering its prelude', async () => {
+            const features = await analyze('container.css', '@container card (min-width: 400px) {\n    .a { color: red; }\n}\n');
+
+            expect(findKey(features, 'css.at-rules.container')!.range).toEqual({
+                start: { line: 0, character: 0 },
+                end: { line: 0, character: 34 }
+            });
+        });
+
+        it('reports media features and range syntax at their position', async () => {
+            const features = await analyze('media.css', '@media (prefers-reduced-data: reduce) and (400px <= width <= 700px) {}\n');
+
+            expect(findKey(features, 'css.at-rules.media.prefers-reduced-data')).toMatchObject({ line: 0, column: 8 });
+            expect(findKey(features, 'css.at-rules.media.range_syntax')).toMatchObject({ line: 0, column: 42 });
+        });
+
+        it('reports statement at-rules', async () => {
+            const features = await analyze('layer.css', '@layer base, components;\n');
+            expect(findKey(features, 'css.at-rules.layer')).toMatchObject({ line: 0, column: 0 });
+        });
+    });
+
+    describe('selectors', () => {
+        it('reports pseudo-classes and pseudo-elements at their position in the selector', async () => {
+            const features = await analyze('pseudo.css', '.a:has(> img) {}\ndialog::backdrop {}\n');
+
+            expect(findKey(features, 'css.selectors.has')).toMatchObject({ line: 0, column: 2 });
+            expect(findKey(features, 'css.selectors.backdrop')).toMatchObject({ line: 1, column: 6 });
+        });
+
+        it('reports the nesting selector', async () => {
+            const features = await analyze('nesting.css', '.b {\n    &:hover { color: red; }\n}\n');
+            expect(findKey(features, 'css.selectors.nesting')).toMatchObject({ line: 1, column: 4 });
+        });
+
+        it('does not report common selectors', async () => {
+            const features = await analyze('common.css', 'a:hover, .b > .c {}\n');
+            expect(features.filter(feature => feature.bcdKey?.startsWith('css.selectors.'))).toEqual([]);
+        });
+    });
+
+    describe('values', () => {
+        const css = '.c {\n    color: color-mix(in oklch, red, blue);\n    width: 10cqi;\n    grid-template-rows: subgrid;\n}\n';
+
+        it('reports functions and units at their position in the value', async () => {
+            const features = await analyze('values.css', css);
+
+            expect(findKey(features, 'css.types.color.color-mix')).toMatchObject({ line: 1, column: 11 });
+            expect(findKey(features, 'css.types.length.container_query_length_units')).toMatchObject({ line: 2, column: 13 });
+        });
+
+        it('resolves keyword values to the most specific BCD key', async () => {
+            const features = await analyze('keywords.css', css);
+            expect(findKey(features, 'css.properties.grid-template-rows.subgrid')).toMatchObject({ line: 3, column: 24 });
+        });
+    });
+
+    describe('@supports', () => {
+        it('guards what the condition tests', async () => {
+            const features = await analyze('supports.css', [
+                '@supports (text-wrap: balance) { .a { text-wrap: balance; } }',
+                '@supports selector(:has(a)) { .b:has(img) { color: red; } }'
+            ].join('\n'));
+
+            expect(features.find(feature => feature.bcdKey === 'css.properties.text-wrap.balance' && feature.line === 0)!.guarded).toBe(true);
+            expect(findKey(features, 'css.selectors.has')!.guarded).toBe(true);
+        });
+
+        it('does not guard what the condition does not test', async () => {
+            const features = await analyze('unrelated.css', [
+                '@supports (display: grid) { .a:has(b) { text-wrap: balance; } }',
+                '@supports not (text-wrap: balance) { .b { text-wrap: balance; } }',
+                '@supports (text-wrap: balance) or (display: grid) { .c { text-wrap: balance; } }'
+            ].join('\n'));
+
+            expect(features.filter(feature => feature.guarded)).toEqual([]);
+        });
+    });
+
+    describe('preprocessors', () => {
+        it('parses SCSS without reporting variables, mixins or nesting that compiles away', async () => {
+            const features = await analyze('styles.scss', [
+                '$gap: 4px;',
+                '@mixin m { gap: $gap; }',
+                '.a {',
+                '  @include m;',
+                '  &:hover { text-wrap: balance; }',
+                '}'
+            ].join('\n'));
+
+            expect(findKey(features, 'css.properties.text-wrap')).toMatchObject({ line: 4, column: 12 });
+            expect(features.filter(feature => /gap\.|include|mixin|nesting/.test(feature.bcdKey || ''))).toEqual([]);
+        });
+
+        it('parses the indented Sass syntax', async () => {
+            const features = await analyze('styles.sass', '.a\n  text-wrap: balance\n  &:hover\n    color: red\n');
+            expect(findKey(features, 'css.properties.text-wrap')).toMatchObject({ line: 1, column: 2 });
+        });
+
+        it('parses Less without reporting variables or mixin calls', async () => {
+            const features = await analyze('styles.less', '@c: red;\n.m() { color: @c; }\n.a { .m(); text-wrap: balance; }\n');
+
+            expect(findKey(features, 'css.properties.text-wrap')).toMatchObject({ line: 2, column: 11 });
+            expect(features.filter(feature => feature.bcdKey?.startsWith('css.at-rules.'))).toEqual([]);
+        });
+    });
+
+    describe('Web Components', () => {
+        it('reports shadow DOM selectors', async () => {
+            const features = await analyze('element.css', ':host(.a) { color: red; }\nx-el::part(label) { color: red; }\n');
+
+            expect(findKey(features, 'css.selectors.hostfunction')).toMatchObject({ line: 0, column: 0 });
+            expect(findKey(features, 'css.selectors.part')).toMatchObject({ line: 1, column: 4 });
+        });
+    });
+});
@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CLIAnalyzer } from './analyzer';
+import { DetectedFeature } from './types';
+
+describe('CLIHTMLAnalyzer', () => {
+    const analyzer = new CLIAnalyzer();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-lens-html-'));
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        return analyzer.initialize();
+    });
+    afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    async function analyze(fileName: string, content: string): Promise<DetectedFeature[]> {
+        const filePath = path.join(dir, fileName);
+        fs.writeFileSync(filePath, content);
+        return analyzer.analyzeFile(filePath);
+    }
+
+    function findKey(features: DetectedFeature[], bcdKey: string): DetectedFeature | undefined {
+        return features.find(feature => feature.bcdKey === bcdKey);
+    }
+
+    describe('attributes', () => {
+        it('reports element and global attributes at their position', async () => {
+            const features = await analyze('attributes.html', [
+                '<img src="a.png" loading="lazy">',
+                '<div popover inert></div>'
+            ].join('\n'));
+
+            expect(findKey(features, 'html.elements.img.loading')).toMatchObject({ name: 'img[loading]', line: 0, column: 17 });
+            expect(findKey(features, 'html.global_attributes.popover')).toMatchObject({ name: 'popover', line: 1, column: 5 });
+            expect(findKey(features, 'html.global_attributes.inert')).toMatchObject({ line: 1, column: 13 });
+        });
+
+        it('reports attribute values BCD tracks separately, one per link type', async () => {
+            const features = await analyze('values.html', [
+                '<input type="color">',
+                '<link rel="preload modulepreload" href="a.js">',
+                '<script type="importmap">{}</script>'
+            ].join('\n'));
+
+            expect(findKey(features, 'html.elements.input.type_color')).toMatchObject({ line: 0, column: 13 });
+            expect(findKey(features, 'html.elements.link.rel.preload')).toMatchObject({ line: 1, column: 11 });
+            expect(findKey(features, 'html.elements.link.rel.modulepreload')).toMatchObject({ line: 1, column: 19 });
+            expect(findKey(features, 'html.elements.script.type.importmap')).toMatchObject({ line: 2, column: 14 });
+        });
+
+        it('does not report data- and aria- attributes', async () => {
+            const features = await analyze('data.html', '<p data-popover="1" aria-label="x"></p>\n');
+            expect(features).toEqual([]);
+        });
+    });
+
+    describe('inline code', () => {
+        const page = [
+            '<style>',
+            '  .a { text-wrap: balance; }',
+            '</style>',
+            '<p style="aspect-ratio: 1"></p>',
+            '<script>',
+            '  const copy = structuredClone(data);',
+            '</script>',
+            '<button onclick="structuredClone(a)"></button>',
+            '<script type="text/template">structuredClone(b)</script>'
+        ].join('\n');
+
+        it('reports CSS in <style> elements and style attributes at their position in the page', async () => {
+            const features = await analyze('styles.html', page);
+
+            expect(findKey(features, 'css.properties.text-wrap')).toMatchObject({ type: 'css', line: 1, column: 7 });
+            expect(findKey(features, 'css.properties.aspect-ratio')).toMatchObject({ type: 'css', line: 3, column: 10 });
+        });
+
+        it('reports JavaScript in scripts and event handlers, but not in templates', async () => {
+            const features = await analyze('scripts.html', page);
+
+            expect(features.filter(feature => feature.bcdKey === 'api.structuredClone')).toEqual([
+                expect.objectContaining({ line: 5, column: 15 }),
+                expect.objectContaining({ line: 7, column: 17 })
+            ]);
+        });
+    });
+
+    describe('Web Components', () => {
+        it('reports declarative shadow DOM', async () => {
+            const features = await analyze('shadow.html', '<x-el><template shadowrootmode="open"><slot></slot></template></x-el>\n');
+
+            expect(findKey(features, 'html.elements.template.shadowrootmode')).toMatchObject({ line: 0, column: 16 });
+            expect(findKey(features, 'html.elements.slot')).toMatchObject({ line: 0, column: 39 });
+        });
+    });
+
+
+    describe('head metadata', () => {
+        it('reports meta names, link relations and media features in the head', async () => {
+            const features = await analyze('head.html', [
+                '<!doctype html>',
+                '<head>',
+                '<meta name="theme-color" media="(prefers-color-scheme: dark)" content="#000">',
+                '<link rel="manifest" href="app.webmanifest">',
+                '</head>'
+            ].join('\n'));
+
+            expect(findKey(features, 'html.elements.meta.name.theme-color')).toMatchObject({ line: 2, column: 12 });
+            expect(findKey(features, 'css.at-rules.media.prefers-color-scheme')).toMatchObject({ line: 2, column: 33 });
+            expect(findKey(features, 'html.elements.link.rel.manifest')).toMatchObject({ line: 3, column: 11 });
+        });
+    });
+
+
+    describe('SVG', () => {
+        it('reports SVG elements and attributes in .svg files', async () => {
+            const features = await analyze('icon.svg', [
+                '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">',
+                '  <filter id="f"><feDropShadow dx="1" dy="1"/></filter>',
+                '  <text paint-order="stroke">x</text>',
+                '  <use xlink:href="#f"/>',
+                '</svg>'
+            ].join('\n'));
+
+            expect(findKey(features, 'svg.elements.feDropShadow')).toMatchObject({ line: 1, column: 18 });
+            expect(findKey(features, 'svg.global_attributes.paint-order')).toMatchObject({ line: 2, column: 8 });
+            expect(findKey(features, 'svg.elements.use.xlink_href')).toMatchObject({ line: 3, column: 7 });
+        });
+
+        it('maps inline SVG against SVG rather than HTML data', async () => {
+            const features = await analyze('inline.html', '<p>\n<svg viewBox="0 0 1 1"><text paint-order="stroke">x</text></svg>\n</p>\n');
+
+            expect(findKey(features, 'svg.global_attributes.paint-order')).toMatchObject({ line: 1, column: 29 });
+            expect(features.filter(feature => /^html\.(elements|global_attributes)\.(svg|text)\b/.test(feature.bcdKey || ''))).toEqual([]);
+        });
+    });
+});
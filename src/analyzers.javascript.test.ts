@@ -0,0 +1,232 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CLIAnalyzer } from './analyzer';
+import { DetectedFeature } from './types';
+
+describe('CLIJavaScriptAnalyzer', () => {
+    const analyzer = new CLIAnalyzer();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-lens-js-'));
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        return analyzer.initialize();
+    });
+    afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    async function analyze(fileName: string, content: string): Promise<DetectedFeature[]> {
+        const filePath = path.join(dir, fileName);
+        fs.writeFileSync(filePath, content);
+        return analyzer.analyzeFile(filePath);
+    }
+
+    function findKey(features: DetectedFeature[], bcdKey: string): DetectedFeature | undefined {
+        return features.find(feature => feature.bcdKey === bcdKey);
+    }
+
+    describe('parsing', () => {
+        it('reports APIs at their position and ignores strings and comments', async () => {
+            const features = await analyze('clone.ts', [
+                '// structuredClone(a) in a comment',
+                'const s: string = "structuredClone(a)";',
+                'const copy = structuredClone(data);'
+            ].join('\n'));
+
+            expect(features.filter(feature => feature.bcdKey === 'api.structuredClone')).toEqual([
+                expect.objectContaining({ line: 2, column: 13, range: { start: { line: 2, character: 13 }, end: { line: 2, character: 28 } } })
+            ]);
+        });
+
+        it('parses JSX and TSX', async () => {
+            const features = await analyze('view.tsx', 'export const View = (props: { a: string }) => <div>{structuredClone(props)}</div>;\n');
+            expect(findKey(features, 'api.structuredClone')).toMatchObject({ line: 0, column: 52 });
+        });
+
+        it('does not throw on invalid code', async () => {
+            await expect(analyze('invalid.js', 'const = ;')).resolves.toEqual([]);
+        });
+    });
+
+    describe('syntax', () => {
+        it('reports syntax features at the node that uses them', async () => {
+            const features = await analyze('syntax.js', [
+                '#!/usr/bin/env node',
+                'a ??= b?.c;',
+                'class A { #x = 1; static { init(); } }',
+                'await load();'
+            ].join('\n'));
+
+            expect(findKey(features, 'javascript.grammar.hashbang_comments')).toMatchObject({ line: 0, column: 0 });
+            expect(findKey(features, 'javascript.operators.nullish_coalescing_assignment')).toMatchObject({ line: 1, column: 0 });
+            expect(findKey(features, 'javascript.operators.optional_chaining')).toMatchObject({ line: 1, column: 6 });
+            expect(findKey(features, 'javascript.classes.private_class_fields')).toMatchObject({ line: 2, column: 10 });
+            expect(findKey(features, 'javascript.classes.static_initialization_blocks')).toMatchObject({ line: 2, column: 18 });
+            expect(findKey(features, 'javascript.operators.await.top_level')).toMatchObject({ line: 3, column: 0 });
+        });
+
+        it('does not report await inside an async function as top-level', async () => {
+            const features = await analyze('async.js', 'async function f() { await load(); }\n');
+            expect(findKey(features, 'javascript.operators.await.top_level')).toBeUndefined();
+        });
+    });
+
+    describe('built-in methods', () => {
+        it('resolves methods through the inferred receiver type', async () => {
+            const features = await analyze('methods.js', [
+                'const arr = [1, 2];',
+                'arr.at(-1);',
+                'Object.groupBy(items, f);',
+                'Promise.withResolvers();'
+            ].join('\n'));
+
+            expect(findKey(features, 'javascript.builtins.Array.at')).toMatchObject({ line: 1, column: 4, confidence: 'high' });
+            expect(findKey(features, 'javascript.builtins.Object.groupBy')).toMatchObject({ line: 2, column: 7 });
+            expect(findKey(features, 'javascript.builtins.Promise.withResolvers')).toMatchObject({ line: 3, column: 8 });
+        });
+
+        it('uses TypeScript annotations for the receiver type', async () => {
+            const features = await analyze('annotated.ts', 'function f(s: string) { return s.at(-1); }\n');
+            expect(findKey(features, 'javascript.builtins.String.at')).toMatchObject({ confidence: 'high' });
+        });
+
+        it('reports calls on receivers of unknown type at low confidence', async () => {
+            const features = await analyze('unknown.js', 'function f(x) { return x.toSorted(); }\n');
+            expect(findKey(features, 'javascript.builtins.Array.toSorted')).toMatchObject({ line: 0, column: 25, confidence: 'low' });
+        });
+
+        it('does not match unknown receivers against Web API members', async () => {
+            const features = await analyze('ordinary.js', [
+                'function f(map, list, str, e) {',
+                '    map.get(1);',
+                '    list.forEach(g);',
+                '    str.slice(1);',
+                '    e.respondWith(r);',
+                '    this.internals.states.add(1);',
+                '}'
+            ].join('\n'));
+
+            expect(features).toEqual([]);
+        });
+    });
+
+    describe('Web APIs', () => {
+        it('resolves global object chains to the interface member they touch', async () => {
+            const features = await analyze('apis.js', [
+                'navigator.clipboard.writeText(text);',
+                'document.startViewTransition(() => {});',
+                'new IntersectionObserver(callback);'
+            ].join('\n'));
+
+            expect(findKey(features, 'api.Clipboard.writeText')).toMatchObject({ line: 0, column: 20 });
+            expect(findKey(features, 'api.Navigator.clipboard')).toMatchObject({ line: 0, column: 10 });
+            expect(findKey(features, 'api.Document.startViewTransition')).toMatchObject({ line: 1, column: 9 });
+            expect(findKey(features, 'api.IntersectionObserver.IntersectionObserver')).toMatchObject({ line: 2, column: 4 });
+        });
+
+        it('does not resolve local variables that shadow globals', async () => {
+            const features = await analyze('shadowed.js', 'function f(navigator) { return navigator.clipboard.writeText(text); }\n');
+            expect(findKey(features, 'api.Clipboard.writeText')).toBeUndefined();
+        });
+    });
+
+    describe('feature detection', () => {
+        it('marks usages behind a matching guard as guarded', async () => {
+            const features = await analyze('guards.js', [
+                "if ('share' in navigator) { navigator.share(data); }",
+                "if (typeof structuredClone !== 'undefined') { structuredClone(a); }",
+                "if (!('clipboard' in navigator)) { return; }",
+                "navigator.clipboard.writeText(text);"
+            ].join('\n'));
+
+            expect(findKey(features, 'api.Navigator.share')!.guarded).toBe(true);
+            expect(findKey(features, 'api.structuredClone')!.guarded).toBe(true);
+            expect(findKey(features, 'api.Navigator.clipboard')!.guarded).toBe(true);
+        });
+
+        it('does not guard usages the check does not test', async () => {
+            const features = await analyze('unrelated.js', [
+                "if ('share' in navigator) { navigator.clipboard.writeText(text); }",
+                "if (CSS.supports('text-wrap', 'balance')) { navigator.share(data); }"
+            ].join('\n'));
+
+            expect(findKey(features, 'api.Navigator.clipboard')!.guarded).toBeFalsy();
+            expect(findKey(features, 'api.Navigator.share')!.guarded).toBeFalsy();
+        });
+    });
+
+    describe('JSX markup', () => {
+        const view = [
+            'export const View = () => (',
+            '  <>',
+            '    <dialog open className="a" />',
+            '    <button popoverTarget="menu">x</button>',
+            '    <img fetchPriority="high" />',
+            '    <Search popover />',
+            "    <link rel={'modulepreload'} />",
+            '  </>',
+            ');'
+        ].join('\n');
+
+        it('reports intrinsic elements and props as HTML features at their position', async () => {
+            const features = await analyze('View.tsx', view);
+
+            expect(findKey(features, 'html.elements.dialog')).toMatchObject({ type: 'html', line: 2, column: 5 });
+            expect(findKey(features, 'html.elements.button.popovertarget')).toMatchObject({ name: 'button[popovertarget]', line: 3, column: 12 });
+            expect(findKey(features, 'html.elements.img.fetchpriority')).toMatchObject({ line: 4, column: 9 });
+            expect(findKey(features, 'html.elements.link.rel.modulepreload')).toMatchObject({ line: 6, column: 15 });
+        });
+
+        it('skips components and React-only props', async () => {
+            const features = await analyze('Components.jsx', view);
+
+            expect(findKey(features, 'html.global_attributes.popover')).toBeUndefined();
+            expect(features.map(feature => feature.bcdKey)).not.toContain('html.global_attributes.class');
+        });
+    });
+
+    describe('CSS-in-JS', () => {
+        it('reports tagged template CSS at its position, keeping lines after multi-line interpolations', async () => {
+            const features = await analyze('Card.js', [
+                "import styled from 'styled-components';",
+                'const Card = styled.div`',
+                '  margin: ${({ gap }) =>',
+                '    gap}px;',
+                '  text-wrap: balance;',
+                '`;'
+            ].join('\n'));
+
+            expect(findKey(features, 'css.properties.text-wrap')).toMatchObject({ type: 'css', line: 4, column: 2 });
+        });
+
+        it('reports Lit css templates', async () => {
+            const features = await analyze('element.ts', "import { css } from 'lit';\nconst styles = css`:host { text-wrap: balance; }`;\n");
+            expect(findKey(features, 'css.properties.text-wrap')).toMatchObject({ line: 1, column: 27 });
+        });
+
+        it('converts object style keys to CSS properties', async () => {
+            const features = await analyze('Box.jsx', "export const Box = () => <div style={{ aspectRatio: '16 / 9' }} />;\n");
+            expect(findKey(features, 'css.properties.aspect-ratio')).toMatchObject({ type: 'css', line: 0, column: 39 });
+        });
+    });
+
+    describe('Web Components', () => {
+        it('reports custom element and shadow DOM APIs, including attachShadow options', async () => {
+            const features = await analyze('element.js', [
+                'class XEl extends HTMLElement {',
+                '  constructor() {',
+                '    super();',
+                "    this.attachShadow({ mode: 'open', delegatesFocus: true });",
+                '    this.internals = this.attachInternals();',
+                '    this.shadowRoot.adoptedStyleSheets = [sheet];',
+                '  }',
+                '}',
+                "customElements.define('x-el', XEl);"
+            ].join('\n'));
+
+            expect(findKey(features, 'api.Element.attachShadow.options_delegatesFocus_parameter')).toMatchObject({ line: 3, column: 38 });
+            expect(findKey(features, 'api.HTMLElement.attachInternals')).toMatchObject({ line: 4, column: 26 });
+            expect(findKey(features, 'api.ShadowRoot.adoptedStyleSheets')).toMatchObject({ line: 5, column: 20 });
+            expect(findKey(features, 'api.CustomElementRegistry.define')).toMatchObject({ line: 8, column: 15 });
+        });
+    });
+});
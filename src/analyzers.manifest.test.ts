@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CLIAnalyzer } from './analyzer';
+import { DetectedFeature } from './types';
+
+describe('CLIManifestAnalyzer', () => {
+    const analyzer = new CLIAnalyzer();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-lens-manifest-'));
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        return analyzer.initialize();
+    });
+    afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    async function analyze(fileName: string, content: string): Promise<DetectedFeature[]> {
+        const filePath = path.join(dir, fileName);
+        fs.writeFileSync(filePath, content);
+        return analyzer.analyzeFile(filePath);
+    }
+
+    function findKey(features: DetectedFeature[], bcdKey: string): DetectedFeature | undefined {
+        return features.find(feature => feature.bcdKey === bcdKey);
+    }
+
+    const manifest = [
+        '{',
+        '  "name": "App",',
+        '  "display_override": ["window-controls-overlay"],',
+        '  "share_target": { "action": "/share" }',
+        '}'
+    ].join('\n');
+
+    it('reports manifest members at their key', async () => {
+        const features = await analyze('app.webmanifest', manifest);
+
+        expect(findKey(features, 'html.manifest.display_override')).toMatchObject({ line: 2, column: 2 });
+        expect(findKey(features, 'html.manifest.share_target')).toMatchObject({ line: 3, column: 2 });
+    });
+
+    it('reports keyword values BCD tracks at their position', async () => {
+        const features = await analyze('values.webmanifest', manifest);
+        expect(findKey(features, 'html.manifest.display_override.window-controls-overlay')).toMatchObject({ line: 2, column: 23 });
+    });
+
+    it('analyzes manifest.json but skips browser extension manifests', async () => {
+        expect(findKey(await analyze('manifest.json', manifest), 'html.manifest.share_target')).toBeDefined();
+
+        fs.mkdirSync(path.join(dir, 'extension'));
+        const features = await analyze('extension/manifest.json', '{ "manifest_version": 3, "share_target": {} }');
+        expect(features).toEqual([]);
+    });
+
+    it('does not throw on invalid JSON', async () => {
+        await expect(analyze('broken.webmanifest', '{ "name": ')).resolves.toEqual([]);
+    });
+});
@@ -1,155 +1,847 @@
-import { DetectedFeature } from './types';
+import { DetectedFeature, BaselineStatus, ExecutionContext } from './types';
 import { CompatibilityDataService } from './services/compatibilityService';
+import postcss, { AtRule, Declaration, Node, Root, Rule } from 'postcss';
+import * as postcssScss from 'postcss-scss';
+import * as postcssLess from 'postcss-less';
+import * as sassParser from 'sass-parser';
+import selectorParser from 'postcss-selector-parser';
+import valueParser from 'postcss-value-parser';
+import { parse, parseExpression, ParserPlugin } from '@babel/parser';
+import traverse, { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { File, Identifier, MemberExpression } from '@babel/types';
+import { LineIndex } from './lineIndex';
+import { EmbeddedRegion, mapFeaturesToHost } from './embeddedRegion';
+import { JSTypeInference } from './jsTypeInference';
+import { CustomRuleMatch, CustomRuleSet } from './customRules';
+import { CONTEXT_LABELS, ExecutionContextDetector, GLOBAL_SCOPES } from './executionContext';
+import * as parse5 from 'parse5';
+import { DefaultTreeAdapterMap } from 'parse5';
 
 // Mock VS Code types for CLI usage
+interface MockPosition {
+    line: number;
+    character: number;
+}
+
 interface MockRange {
-    start: { line: number; character: number };
-    end: { line: number; character: number };
+    start: MockPosition;
+    end: MockPosition;
 }
 
-interface MockDocument {
+export interface MockDocument {
     fileName: string;
     languageId: string;
     getText: () => string;
     uri: { fsPath: string };
+    /** Set for scripts known to run in a worker, e.g. because another file starts them with new Worker() */
+    executionContext?: ExecutionContext;
+}
+
+interface FeatureOptions {
+    name: string;
+    type: DetectedFeature['type'];
+    bcdKey?: string;
+    baselineStatus: BaselineStatus;
+    start: MockPosition;
+    length?: number;
+    end?: MockPosition;
+    context?: string;
+    confidence?: DetectedFeature['confidence'];
+    document: MockDocument;
+}
+
+type HTMLParentNode = DefaultTreeAdapterMap['parentNode'];
+type HTMLElementNode = DefaultTreeAdapterMap['element'];
+type HTMLTemplateNode = DefaultTreeAdapterMap['template'];
+
+// CSS found in JavaScript. Features of an object style declaration are reported
+// at the anchor, the object property, since the CSS text is generated from it.
+// compilesNesting is set where the library turns nested rules into plain CSS.
+interface CSSFragment {
+    region: EmbeddedRegion;
+    anchor?: t.Node;
+    compilesNesting?: boolean;
+}
+
+// Baseline statuses from most to least risky
+const STATUS_RISK_ORDER: { [status in BaselineStatus['status']]: number } = {
+    limited_availability: 0,
+    newly_available: 1,
+    widely_available: 2
+};
+
+// A keyword of an attribute value that BCD tracks separately, e.g. "color" in `type="color"`
+interface AttributeValueMatch {
+    token: string;
+    name: string;
+    bcdKey: string;
+}
+
+interface PreludeFeature {
+    pattern: RegExp;
+    subfeature: string;
+    label: string;
+}
+
+/**
+ * Convert a 1-based PostCSS source position to a 0-based editor position
+ */
+function toPosition(position: { line: number; column: number }): MockPosition {
+    return { line: position.line - 1, character: position.column - 1 };
+}
+
+/**
+ * Get the name of a member expression property, e.g. "at" for arr.at or arr['at']
+ */
+function getPropertyName(property: t.Node, computed: boolean): string | null {
+    if (!computed && t.isIdentifier(property)) {
+        return property.name;
+    }
+    if (t.isStringLiteral(property)) {
+        return property.value;
+    }
+    return null;
+}
+
+/**
+ * Label an attribute as `popover` if it is global, or `img[loading]` otherwise
+ */
+function getAttributeLabel(tagName: string, attribute: string, bcdKey: string): string {
+    return /^(html|svg)\.global_attributes\./.test(bcdKey) ? attribute : `${tagName}[${attribute}]`;
+}
+
+/**
+ * Get the element name of an SVG BCD key, e.g. "feDropShadow" for svg.elements.feDropShadow
+ */
+function getSVGElementLabel(bcdKey: string): string {
+    return bcdKey.split('.')[2];
+}
+
+/**
+ * Get the keywords of an attribute value that BCD tracks separately, e.g.
+ * `type="color"`. rel holds a list of link types, other attributes a single keyword.
+ */
+function getAttributeValueMatches(
+    compatibilityService: CompatibilityDataService,
+    tagName: string,
+    attribute: string,
+    value: string
+): AttributeValueMatch[] {
+    const tokens = attribute === 'rel' ? value.split(/\s+/) : [value.trim()];
+
+    return tokens
+        .filter(token => /^[a-z][a-z0-9-]*$/i.test(token))
+        .flatMap(token => {
+            const bcdKey = compatibilityService.mapHTMLAttributeValueToBCD(tagName, attribute, token.toLowerCase());
+            return bcdKey ? [{ token, name: `${tagName}[${attribute}="${token.toLowerCase()}"]`, bcdKey }] : [];
+        });
+}
+
+/**
+ * Get the document an embedded region is analyzed as, e.g. the CSS of a <style> block
+ */
+export function createRegionDocument(document: MockDocument, region: EmbeddedRegion): MockDocument {
+    return {
+        ...document,
+        languageId: region.languageId,
+        getText: () => region.content
+    };
+}
+
+function createFeature(options: FeatureOptions): DetectedFeature {
+    const { start } = options;
+    const end = options.end || { line: start.line, character: start.character + (options.length || 0) };
+
+    return {
+        name: options.name,
+        type: options.type,
+        id: options.baselineStatus.featureId,
+        line: start.line,
+        column: start.character,
+        baselineStatus: options.baselineStatus,
+        bcdKey: options.bcdKey,
+        context: options.context,
+        confidence: options.confidence,
+        range: { start, end },
+        filePath: options.document.fileName
+    };
 }
 
 export class CLICSSAnalyzer {
-    constructor(private compatibilityService: CompatibilityDataService) {}
+    // Properties so widely supported that reporting them only adds noise
+    private static readonly COMMON_PROPERTIES = ['color', 'background', 'margin', 'padding', 'width', 'height'];
+    private static readonly COMMON_AT_RULES = ['media', 'charset', 'import', 'font-face', 'keyframes'];
+    private static readonly COMMON_MEDIA_FEATURES = ['width', 'height'];
+    private static readonly COMMON_FUNCTIONS = ['url', 'var', 'calc', 'rgb', 'rgba', 'hsl', 'hsla'];
+    private static readonly COMMON_UNITS = ['', '%', 'px', 'em', 'rem', 'vh', 'vw', 'fr', 's', 'ms', 'deg'];
+    private static readonly COMMON_SELECTORS = [
+        ':hover', ':focus', ':active', ':visited', ':link', ':first-child', ':last-child',
+        ':before', ':after', '::before', '::after'
+    ];
+
+    // Sass and Less at-rules that are compiled away and never reach the browser
+    private static readonly PREPROCESSOR_AT_RULES = [
+        'use', 'forward', 'mixin', 'include', 'function', 'return', 'if', 'else', 'each', 'for', 'while',
+        'extend', 'debug', 'warn', 'error', 'content', 'at-root', 'plugin'
+    ];
+
+    // At-rules whose declarations are descriptors with compat data of their own
+    private static readonly DESCRIPTOR_AT_RULES = ['property', 'font-face', 'counter-style', 'font-palette-values', 'page'];
+
+    // Prelude syntax that is tracked separately from the at-rule itself
+    private static readonly PRELUDE_FEATURES: { [atRule: string]: PreludeFeature[] } = {
+        media: [
+            { pattern: /\([^()]*[<>][^()]*\)/g, subfeature: 'range_syntax', label: 'range syntax' },
+            { pattern: /\)\s+or\s+\(/gi, subfeature: 'or_syntax', label: 'or syntax' }
+        ],
+        container: [
+            { pattern: /\bstyle\(/gi, subfeature: 'style_queries_for_custom_properties', label: 'style()' },
+            { pattern: /\bscroll-state\(/gi, subfeature: 'scroll-state_queries', label: 'scroll-state()' }
+        ],
+        supports: [
+            { pattern: /\bselector\(/gi, subfeature: 'selector', label: 'selector()' },
+            { pattern: /\bfont-tech\(/gi, subfeature: 'font-tech', label: 'font-tech()' },
+            { pattern: /\bfont-format\(/gi, subfeature: 'font-format', label: 'font-format()' }
+        ],
+        import: [
+            { pattern: /\blayer\b/gi, subfeature: 'layer', label: 'layer' },
+            { pattern: /\bsupports\(/gi, subfeature: 'supports', label: 'supports()' }
+        ]
+    };
+
+    constructor(private compatibilityService: CompatibilityDataService, private customRules?: CustomRuleSet) {}
 
     async analyze(content: string, document: MockDocument): Promise<DetectedFeature[]> {
         const features: DetectedFeature[] = [];
         
         try {
-            // Simple CSS property detection
-            const cssPropertyRegex = /([a-z-]+)\s*:/g;
-            let match;
-            
-            while ((match = cssPropertyRegex.exec(content)) !== null) {
-                const property = match[1];
-                const line = content.substring(0, match.index).split('\n').length - 1;
-                const character = match.index - content.lastIndexOf('\n', match.index) - 1;
-                
-                // Skip common properties that are widely supported
-                if (['color', 'background', 'margin', 'padding', 'width', 'height'].includes(property)) {
-                    continue;
+            const root = this.parseStylesheet(content, document);
+            const lines = new LineIndex(content);
+
+            const isPreprocessor = ['scss', 'sass', 'less'].includes(document.languageId);
+            const supportsGuards = new Map<AtRule, Set<string>>();
+
+            root.walk(node => {
+                // The contents of a mixin or @if block still end up in the output, so only the node itself is skipped
+                if (isPreprocessor && this.isPreprocessorNode(node)) {
+                    return;
                 }
-                
-                const bcdKey = this.compatibilityService.mapCSSPropertyToBCD(property);
-                const baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
-                if (!baselineStatus) continue;
-                const featureDetails = {
-                    name: property,
-                    type: 'css' as const,
-                    line,
-                    column: character,
-                    baselineStatus
-                };
-                if (featureDetails) {
-                    features.push({
-                        ...featureDetails,
-                        range: {
-                            start: { line, character },
-                            end: { line, character: character + property.length }
-                        } as any,
-                        filePath: document.fileName
-                    } as DetectedFeature);
+
+                let nodeFeatures: DetectedFeature[] = [];
+                if (node.type === 'decl') {
+                    nodeFeatures = this.analyzeDeclaration(node, document, lines);
+                } else if (node.type === 'atrule') {
+                    nodeFeatures = this.analyzeAtRule(node, document, lines);
+                } else if (node.type === 'rule') {
+                    nodeFeatures = this.analyzeRule(node, document, lines);
                 }
-            }
+
+                // Sass and Less flatten nested rules, so the browser never sees native nesting
+                if (isPreprocessor) {
+                    nodeFeatures = nodeFeatures.filter(feature => !feature.bcdKey?.startsWith('css.selectors.nesting'));
+                }
+
+                if (nodeFeatures.length > 0) {
+                    const guardedKeys = this.getSupportsGuards(node, document, supportsGuards);
+                    nodeFeatures
+                        .filter(feature => feature.bcdKey && guardedKeys.has(feature.bcdKey))
+                        .forEach(feature => feature.guarded = true);
+                }
+                features.push(...nodeFeatures);
+            });
         } catch (error) {
             // Ignore parsing errors for CLI
         }
         
         return features;
     }
-}
 
-export class CLIJavaScriptAnalyzer {
-    constructor(private compatibilityService: CompatibilityDataService) {}
+    /**
+     * Get the BCD keys tested by the `@supports` blocks a node sits inside. Only
+     * those features are guarded: `@supports (display: grid)` says nothing about
+     * :has() used in the same block. `@supports not (...)` holds the fallback, so
+     * it tests nothing.
+     */
+    private getSupportsGuards(node: Node, document: MockDocument, cache: Map<AtRule, Set<string>>): Set<string> {
+        const keys = new Set<string>();
 
-    async analyze(content: string, document: MockDocument): Promise<DetectedFeature[]> {
+        for (let parent: Node['parent'] = node.parent; parent; parent = parent.parent) {
+            const atRule = parent as AtRule;
+            if (atRule.type !== 'atrule' || atRule.name.toLowerCase() !== 'supports') {
+                continue;
+            }
+
+            if (!cache.has(atRule)) {
+                cache.set(atRule, this.getSupportsConditionKeys(atRule.params, document));
+            }
+            cache.get(atRule)!.forEach(key => keys.add(key));
+        }
+
+        return keys;
+    }
+
+    /**
+     * Analyze the declarations and selector() arguments a @supports condition
+     * requires, as if they were used, to learn which BCD keys it tests
+     */
+    private getSupportsConditionKeys(condition: string, document: MockDocument): Set<string> {
+        const declarations: string[] = [];
+        const selectors: string[] = [];
+        this.collectSupportsConditions(valueParser(condition).nodes, declarations, selectors);
+
+        const keys = new Set<string>();
+        const sources = [`a{${declarations.join(';')}}`, ...selectors.map(selector => `${selector}{}`)];
+
+        for (const source of sources) {
+            try {
+                const lines = new LineIndex(source);
+                postcss.parse(source).walk(child => {
+                    const features = child.type === 'decl' ? this.analyzeDeclaration(child, document, lines)
+                        : child.type === 'rule' && source !== sources[0] ? this.analyzeRule(child, document, lines)
+                        : [];
+                    features.forEach(feature => feature.bcdKey && keys.add(feature.bcdKey));
+                });
+            } catch (error) {
+                // An unparsable condition guards nothing
+            }
+        }
+
+        return keys;
+    }
+
+    /**
+     * Collect the `(property: value)` tests and selector() arguments that must
+     * all pass for a condition to hold. Tests under `not` or in an `or` list are
+     * not required, so they are left out.
+     */
+    private collectSupportsConditions(nodes: valueParser.Node[], declarations: string[], selectors: string[]): void {
+        if (nodes.some(node => node.type === 'word' && node.value.toLowerCase() === 'or')) {
+            return;
+        }
+
+        nodes.forEach((node, index) => {
+            const previous = nodes.slice(0, index).reverse().find(other => other.type !== 'space');
+            if (node.type !== 'function' || (previous?.type === 'word' && previous.value.toLowerCase() === 'not')) {
+                return;
+            }
+
+            const name = node.value.toLowerCase();
+            const colon = node.nodes.findIndex(child => child.type === 'div' && child.value === ':');
+            if (name === 'selector') {
+                selectors.push(valueParser.stringify(node.nodes));
+            } else if (name === '' && colon > 0) {
+                const property = valueParser.stringify(node.nodes.slice(0, colon)).trim();
+                const value = valueParser.stringify(node.nodes.slice(colon + 1)).trim();
+                declarations.push(`${property}: ${value}`);
+            } else if (name === '') {
+                this.collectSupportsConditions(node.nodes, declarations, selectors);
+            }
+        });
+    }
+
+    /**
+     * Parse a stylesheet into a PostCSS AST. Comments become their own nodes, so
+     * nothing inside them is mistaken for a declaration, and every node keeps its
+     * source position.
+     */
+    parseStylesheet(content: string, document: MockDocument): Root {
+        switch (document.languageId) {
+            case 'scss':
+                return postcssScss.parse(content, { from: document.fileName });
+            case 'less':
+                return postcssLess.parse(content, { from: document.fileName });
+            case 'sass': {
+                const root = sassParser.sass.parse(content, { from: document.fileName });
+                this.restoreSourceRaws(root, content);
+                return root;
+            }
+            default:
+                return postcss.parse(content, { from: document.fileName });
+        }
+    }
+
+    /**
+     * The indented-syntax parser rebuilds selectors, values and preludes from its
+     * own AST, e.g. `red` becomes `#ff0000`, and leaves raws empty. Restore the
+     * source text so positions within them can be worked out as for other syntaxes.
+     */
+    private restoreSourceRaws(root: Root, content: string): void {
+        root.walk(node => {
+            const start = node.source?.start?.offset;
+            const end = node.source?.end?.offset;
+            if (start === undefined || end === undefined) {
+                return;
+            }
+
+            // Indented syntax ends a selector, prelude or declaration at the line break
+            const text = content.slice(start, end).split(/\r?\n/)[0].trimEnd();
+            const raws = node.raws as any;
+
+            if (node.type === 'decl') {
+                const between = text.slice(node.prop.length).match(/^\s*:\s*/)?.[0] || ':';
+                raws.between = between;
+                raws.value = { value: node.value, raw: text.slice(node.prop.length + between.length) };
+            } else if (node.type === 'rule') {
+                raws.selector = { value: node.selector, raw: text };
+            } else if (node.type === 'atrule') {
+                const afterName = text.slice(1 + node.name.length).match(/^\s*/)![0];
+                raws.afterName = afterName;
+                raws.params = { value: node.params, raw: text.slice(1 + node.name.length + afterName.length) };
+            }
+        });
+    }
+
+    /**
+     * Check for Sass and Less constructs that compile away: variables, mixin
+     * definitions and calls, control flow and module rules
+     */
+    private isPreprocessorNode(node: Node): boolean {
+        if (node.type === 'decl') {
+            const prop = (node as Declaration).prop;
+            // $variables, Less &:extend() and interpolated property names
+            return prop.startsWith('$') || prop.startsWith('&') || /#\{|@\{/.test(prop);
+        }
+
+        if (node.type === 'atrule') {
+            const atRule = node as AtRule & { variable?: boolean; mixin?: boolean };
+            return atRule.variable === true || atRule.mixin === true ||
+                CLICSSAnalyzer.PREPROCESSOR_AT_RULES.includes(atRule.name.toLowerCase());
+        }
+
+        return false;
+    }
+
+    private analyzeDeclaration(decl: Declaration, document: MockDocument, lines: LineIndex): DetectedFeature[] {
+        const property = decl.prop.toLowerCase();
+
+        if (decl.parent?.type === 'atrule') {
+            const atRule = (decl.parent as AtRule).name.toLowerCase();
+            if (CLICSSAnalyzer.DESCRIPTOR_AT_RULES.includes(atRule)) {
+                return this.analyzeDescriptor(decl, atRule, document);
+            }
+        }
+
+        if (!decl.source?.start) {
+            return [];
+        }
+
+        const features = [
+            ...this.analyzeValue(decl, document, lines),
+            ...(this.customRules?.matchCSSDeclaration(decl.prop, decl.value) || []).map(match => createFeature({
+                ...match,
+                type: 'css',
+                start: toPosition(decl.source!.start!),
+                length: decl.prop.length,
+                context: decl.toString(),
+                document
+            }))
+        ];
+
+        // Custom properties are author-defined and have no compatibility data
+        if (property.startsWith('--') || CLICSSAnalyzer.COMMON_PROPERTIES.includes(property)) {
+            return features;
+        }
+
+        const bcdKey = this.compatibilityService.mapCSSPropertyToBCD(property);
+        const baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
+        if (!baselineStatus) {
+            return features;
+        }
+
+        features.unshift(createFeature({
+            name: property,
+            type: 'css',
+            bcdKey,
+            baselineStatus,
+            start: toPosition(decl.source.start),
+            length: decl.prop.length,
+            context: decl.toString(),
+            document
+        }));
+
+        return features;
+    }
+
+    /**
+     * Detect value functions, keyword values and units. Each resolves to the most
+     * specific BCD key available, e.g. css.properties.text-wrap.balance rather than
+     * css.properties.text-wrap.
+     */
+    private analyzeValue(decl: Declaration, document: MockDocument, lines: LineIndex): DetectedFeature[] {
         const features: DetectedFeature[] = [];
-        
-        try {
-            // Simple JavaScript API detection
-            const jsApiRegex = /\b(fetch|Promise|async|await|const|let|Map|Set|WeakMap|WeakSet)\b/g;
-            let match;
-            
-            while ((match = jsApiRegex.exec(content)) !== null) {
-                const api = match[1];
-                const line = content.substring(0, match.index).split('\n').length - 1;
-                const character = match.index - content.lastIndexOf('\n', match.index) - 1;
-                
-                const bcdKey = this.compatibilityService.mapJSAPIToBCD(api);
-                const baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
-                if (!baselineStatus) continue;
-                const featureDetails = {
-                    name: api,
-                    type: 'javascript' as const,
-                    line,
-                    column: character,
-                    baselineStatus
-                };
-                if (featureDetails) {
-                    features.push({
-                        ...featureDetails,
-                        range: {
-                            start: { line, character },
-                            end: { line, character: character + api.length }
-                        } as any,
-                        filePath: document.fileName
-                    } as DetectedFeature);
+        const property = decl.prop.toLowerCase();
+        const isCustomProperty = property.startsWith('--');
+        const value: string = (decl.raws as any).value?.raw ?? decl.value;
+        const valueOffset = decl.source!.start!.offset + decl.prop.length + (decl.raws.between || '').length;
+
+        const push = (name: string, bcdKey: string, offset: number, length: number) => {
+            const baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
+            if (!baselineStatus) return;
+
+            features.push(createFeature({
+                name,
+                type: 'css',
+                bcdKey,
+                baselineStatus,
+                start: lines.positionAt(offset),
+                length,
+                context: decl.toString(),
+                document
+            }));
+        };
+
+        const parsed = valueParser(value);
+
+        parsed.walk(node => {
+            const offset = valueOffset + node.sourceIndex;
+
+            if (node.type === 'function' && node.value) {
+                const functionName = node.value.toLowerCase();
+                if (!CLICSSAnalyzer.COMMON_FUNCTIONS.includes(functionName)) {
+                    const bcdKey = this.compatibilityService.mapCSSFunctionToBCD(functionName, isCustomProperty ? undefined : property);
+                    push(`${functionName}()`, bcdKey, offset, functionName.length);
+                }
+            } else if (node.type === 'word') {
+                const dimension = valueParser.unit(node.value);
+                if (dimension) {
+                    const unit = dimension.unit.toLowerCase();
+                    if (!CLICSSAnalyzer.COMMON_UNITS.includes(unit)) {
+                        push(`${unit} unit`, this.compatibilityService.mapCSSUnitToBCD(unit), offset + dimension.number.length, unit.length);
+                    }
+                }
+            }
+        });
+
+        // Keyword values only have their own compat entries at the top level of a declaration
+        if (!isCustomProperty) {
+            for (const node of parsed.nodes) {
+                if (node.type !== 'word' || !/^[a-z][a-z-]*$/i.test(node.value)) {
+                    continue;
                 }
+
+                const keyword = node.value.toLowerCase();
+                const bcdKey = this.compatibilityService.mapCSSPropertyToBCD(property, keyword);
+                if (bcdKey !== this.compatibilityService.mapCSSPropertyToBCD(property)) {
+                    push(`${property}: ${keyword}`, bcdKey, valueOffset + node.sourceIndex, keyword.length);
+                }
+            }
+        }
+
+        return features;
+    }
+
+    private analyzeDescriptor(decl: Declaration, atRule: string, document: MockDocument): DetectedFeature[] {
+        const descriptor = decl.prop.toLowerCase();
+        const bcdKey = this.compatibilityService.mapCSSAtRuleToBCD(atRule, descriptor);
+        const baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
+        if (!baselineStatus || !decl.source?.start) {
+            return [];
+        }
+
+        return [createFeature({
+            name: `@${atRule} ${descriptor}`,
+            type: 'css',
+            bcdKey,
+            baselineStatus,
+            start: toPosition(decl.source.start),
+            length: decl.prop.length,
+            context: decl.toString(),
+            document
+        })];
+    }
+
+    private analyzeAtRule(atRule: AtRule, document: MockDocument, lines: LineIndex): DetectedFeature[] {
+        const features: DetectedFeature[] = [];
+        const name = atRule.name.toLowerCase();
+        const startOffset = atRule.source?.start?.offset;
+        if (startOffset === undefined) {
+            return features;
+        }
+
+        // The prelude is everything between the at-rule name and its block
+        const prelude = (atRule.raws as any).params?.raw ?? atRule.params;
+        const preludeOffset = startOffset + 1 + atRule.name.length + (atRule.raws.afterName || '').length;
+
+        if (!CLICSSAnalyzer.COMMON_AT_RULES.includes(name)) {
+            const bcdKey = this.compatibilityService.mapCSSAtRuleToBCD(name);
+            const baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
+            if (baselineStatus) {
+                features.push(createFeature({
+                    name: `@${name}`,
+                    type: 'css',
+                    bcdKey,
+                    baselineStatus,
+                    start: lines.positionAt(startOffset),
+                    end: lines.positionAt(prelude ? preludeOffset + prelude.length : startOffset + 1 + atRule.name.length),
+                    context: `@${name} ${prelude}`.trim(),
+                    document
+                }));
             }
+        }
+
+        for (const { pattern, subfeature, label } of CLICSSAnalyzer.PRELUDE_FEATURES[name] || []) {
+            const bcdKey = this.compatibilityService.mapCSSAtRuleToBCD(name, subfeature);
+            const baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
+            if (!baselineStatus) continue;
+
+            for (const match of prelude.matchAll(pattern)) {
+                const offset = preludeOffset + match.index!;
+                features.push(createFeature({
+                    name: `@${name} ${label}`,
+                    type: 'css',
+                    bcdKey,
+                    baselineStatus,
+                    start: lines.positionAt(offset),
+                    end: lines.positionAt(offset + match[0].length),
+                    context: `@${name} ${prelude}`.trim(),
+                    document
+                }));
+            }
+        }
+
+        if (name === 'media') {
+            features.push(...this.analyzeMediaFeatures(prelude, preludeOffset, document, lines));
+        }
+
+        return features;
+    }
+
+    /**
+     * Report the media features of a media query, e.g. the prelude of @media or
+     * the media attribute of a <link>, which starts at preludeOffset
+     */
+    analyzeMediaFeatures(prelude: string, preludeOffset: number, document: MockDocument, lines: LineIndex): DetectedFeature[] {
+        const features: DetectedFeature[] = [];
+        const mediaFeatureRegex = /\(\s*([a-z-]+)\s*(?=[:)<>=])/gi;
+        let match;
+
+        while ((match = mediaFeatureRegex.exec(prelude)) !== null) {
+            const mediaFeature = match[1].toLowerCase();
+            if (CLICSSAnalyzer.COMMON_MEDIA_FEATURES.includes(mediaFeature.replace(/^(min|max)-/, ''))) {
+                continue;
+            }
+
+            const bcdKey = this.compatibilityService.mapCSSMediaFeatureToBCD(mediaFeature);
+            const baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
+            if (!baselineStatus) continue;
+
+            const offset = preludeOffset + match.index + match[0].indexOf(match[1]);
+            features.push(createFeature({
+                name: `@media (${mediaFeature})`,
+                type: 'css',
+                bcdKey,
+                baselineStatus,
+                start: lines.positionAt(offset),
+                length: mediaFeature.length,
+                context: `@media ${prelude}`,
+                document
+            }));
+        }
+
+        return features;
+    }
+
+    private analyzeRule(rule: Rule, document: MockDocument, lines: LineIndex): DetectedFeature[] {
+        const features: DetectedFeature[] = [];
+        const startOffset = rule.source?.start?.offset;
+
+        // Keyframe selectors such as "from" and "50%" are not element selectors
+        const parent = rule.parent as AtRule | undefined;
+        if (startOffset === undefined || (parent?.type === 'atrule' && /keyframes$/i.test(parent.name))) {
+            return features;
+        }
+
+        const selector: string = (rule.raws as any).selector?.raw ?? rule.selector;
+        let hasNestingSelector = false;
+
+        try {
+            selectorParser(root => {
+                root.walk(node => {
+                    let token: string;
+                    let functional = false;
+                    if (node.type === 'pseudo') {
+                        token = node.value.toLowerCase();
+                        functional = node.nodes.length > 0;
+                    } else if (node.type === 'combinator') {
+                        token = node.value.trim() || ' ';
+                    } else if (node.type === 'nesting') {
+                        token = '&';
+                        hasNestingSelector = true;
+                    } else {
+                        return;
+                    }
+
+                    if (token === ' ' || token === '>' || CLICSSAnalyzer.COMMON_SELECTORS.includes(token)) {
+                        return;
+                    }
+
+                    const feature = this.createSelectorFeature(token, startOffset + node.sourceIndex, selector, document, lines, token.length, functional);
+                    if (feature) {
+                        features.push(feature);
+                    }
+                });
+            }).processSync(selector);
         } catch (error) {
-            // Ignore parsing errors for CLI
+            // Skip selectors the parser cannot handle
+            return features;
         }
-        
+
+        // A rule nested directly inside another rule uses native nesting even without "&"
+        if (!hasNestingSelector && this.isNestedRule(rule)) {
+            const feature = this.createSelectorFeature('&', startOffset, selector, document, lines, selector.length);
+            if (feature) {
+                features.push(feature);
+            }
+        }
+
         return features;
     }
+
+    private createSelectorFeature(
+        token: string,
+        offset: number,
+        selector: string,
+        document: MockDocument,
+        lines: LineIndex,
+        length: number = token.length,
+        functional: boolean = false
+    ): DetectedFeature | null {
+        const bcdKey = this.compatibilityService.mapCSSSelectorToBCD(token, functional);
+        const baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
+        if (!baselineStatus) {
+            return null;
+        }
+
+        const label = bcdKey.endsWith('function') ? `${token}()` : token;
+        return createFeature({
+            name: token === '&' ? 'nesting selector (&)' : /^[+~|]/.test(token) ? `${token} combinator` : label,
+            type: 'css',
+            bcdKey,
+            baselineStatus,
+            start: lines.positionAt(offset),
+            end: lines.positionAt(offset + length),
+            context: selector,
+            document
+        });
+    }
+
+    private isNestedRule(rule: Rule): boolean {
+        for (let parent: Node['parent'] = rule.parent; parent; parent = parent.parent) {
+            if (parent.type === 'rule') {
+                return true;
+            }
+        }
+        return false;
+    }
 }
 
-export class CLIHTMLAnalyzer {
-    constructor(private compatibilityService: CompatibilityDataService) {}
+export class CLIJavaScriptAnalyzer {
+    // React props whose HTML attribute is not simply the lowercased prop name
+    private static readonly JSX_PROP_ATTRIBUTES: { [prop: string]: string } = {
+        className: 'class',
+        htmlFor: 'for',
+        acceptCharset: 'accept-charset',
+        httpEquiv: 'http-equiv'
+    };
+
+    // React-only props that never reach the DOM as attributes
+    private static readonly JSX_REACT_PROPS = [
+        'key', 'ref', 'children', 'dangerouslySetInnerHTML', 'suppressHydrationWarning',
+        'suppressContentEditableWarning', 'defaultValue', 'defaultChecked'
+    ];
+
+    // Globals so widely supported that reporting them only adds noise
+    private static readonly COMMON_GLOBALS = [
+        'undefined', 'NaN', 'Infinity', 'Object', 'Array', 'String', 'Number', 'Boolean', 'Function',
+        'Math', 'JSON', 'Date', 'RegExp', 'Error', 'TypeError', 'console', 'window', 'document',
+        'parseInt', 'parseFloat', 'isNaN', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'
+    ];
+
+    // Tags and functions of CSS-in-JS libraries: styled-components, Emotion and Lit
+    private static readonly CSS_TAGS = ['css', 'styled', 'keyframes', 'createGlobalStyle', 'injectGlobal'];
+
+    // JSX props that take an object of CSS declarations
+    private static readonly STYLE_PROPS = ['style', 'sx', 'css'];
+
+    private typeInference: JSTypeInference;
+
+    /**
+     * CSS-in-JS is passed to the given CSS analyzer. Leave it out to skip it,
+     * e.g. when the CSS analyzer is disabled.
+     */
+    constructor(
+        private compatibilityService: CompatibilityDataService,
+        private cssAnalyzer?: CLICSSAnalyzer,
+        private customRules?: CustomRuleSet
+    ) {
+        this.typeInference = new JSTypeInference(compatibilityService);
+    }
 
     async analyze(content: string, document: MockDocument): Promise<DetectedFeature[]> {
         const features: DetectedFeature[] = [];
         
         try {
-            // Simple HTML element detection
-            const htmlElementRegex = /<([a-z][a-z0-9-]*)/gi;
-            let match;
-            
-            while ((match = htmlElementRegex.exec(content)) !== null) {
-                const element = match[1].toLowerCase();
-                const line = content.substring(0, match.index).split('\n').length - 1;
-                const character = match.index - content.lastIndexOf('\n', match.index) - 1;
-                
-                // Skip common elements
-                if (['div', 'span', 'p', 'a', 'img', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'].includes(element)) {
-                    continue;
-                }
-                
-                const bcdKey = this.compatibilityService.mapHTMLElementToBCD(element);
-                const baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
-                if (!baselineStatus) continue;
-                const featureDetails = {
-                    name: element,
-                    type: 'html' as const,
-                    line,
-                    column: character,
-                    baselineStatus
-                };
-                if (featureDetails) {
-                    features.push({
-                        ...featureDetails,
-                        range: {
-                            start: { line, character },
-                            end: { line, character: character + element.length }
-                        } as any,
-                        filePath: document.fileName
-                    } as DetectedFeature);
+            const ast = this.parseScript(content, document);
+            const cssFragments: CSSFragment[] = [];
+            const executionContext = ExecutionContextDetector.detect(ast, document.executionContext);
+            document = { ...document, executionContext };
+
+            if (ast.program.interpreter) {
+                features.push(...this.createNodeFeature('hashbang', this.compatibilityService.mapJSSyntaxToBCD('hashbang'), ast.program.interpreter, document));
+            }
+
+            traverse(ast, {
+                enter: path => {
+                    for (const syntax of this.getSyntaxFeatures(path, document)) {
+                        features.push(...this.createNodeFeature(syntax, this.compatibilityService.mapJSSyntaxToBCD(syntax), path.node, document));
+                    }
+                },
+                Identifier: path => {
+                    features.push(...this.markGuarded(path, [
+                        ...this.analyzeIdentifier(path, document),
+                        ...this.analyzeCustomMember(path, document)
+                    ]));
+                },
+                'MemberExpression|OptionalMemberExpression': path => {
+                    const memberFeatures = this.analyzeMemberExpression(path as NodePath<MemberExpression>, document);
+                    features.push(...this.markGuarded(path, [
+                        ...memberFeatures,
+                        ...this.analyzeCallOptions(path as NodePath<MemberExpression>, memberFeatures[0]?.bcdKey, document),
+                        ...this.analyzeCustomMember(path, document)
+                    ]));
+                },
+                JSXOpeningElement: path => {
+                    features.push(...this.analyzeJSXElement(path.node, document, this.isJSXSVGElement(path)));
+                },
+                TaggedTemplateExpression: path => {
+                    if (this.isCSSTag(path.node.tag)) {
+                        cssFragments.push({
+                            ...this.getTemplateFragment(path.node.quasi, content),
+                            compilesNesting: !this.isLitTag(path)
+                        });
+                    }
+                },
+                CallExpression: path => {
+                    if (this.isCSSTag(path.node.callee)) {
+                        path.node.arguments.forEach(arg => cssFragments.push(...this.getObjectStyleFragments(arg)));
+                    }
+                },
+                JSXAttribute: path => {
+                    const { name, value } = path.node;
+                    if (t.isJSXIdentifier(name) && CLIJavaScriptAnalyzer.STYLE_PROPS.includes(name.name) &&
+                        t.isJSXExpressionContainer(value)) {
+                        cssFragments.push(...this.getObjectStyleFragments(value.expression));
+                    }
                 }
+            });
+
+            for (const fragment of cssFragments) {
+                features.push(...await this.analyzeCSSFragment(fragment, document));
+            }
+
+            if (executionContext !== 'window') {
+                features.forEach(feature => this.applyWorkerSupport(feature, executionContext));
             }
         } catch (error) {
             // Ignore parsing errors for CLI
@@ -157,4 +849,1254 @@ export class CLIHTMLAnalyzer {
         
         return features;
     }
-}
\ No newline at end of file
+
+    /**
+     * Parse JavaScript or TypeScript, with JSX where the file type allows it
+     */
+    parseScript(content: string, document: MockDocument): File {
+        const plugins: ParserPlugin[] = [
+            'decorators',
+            'decoratorAutoAccessors',
+            'explicitResourceManagement',
+            ['importAttributes', { deprecatedAssertSyntax: true }]
+        ];
+
+        if (document.languageId.startsWith('typescript')) {
+            plugins.push('typescript');
+        }
+        // A .ts file cannot contain JSX: `<T>(x) => x` is a generic arrow function there
+        if (document.languageId !== 'typescript') {
+            plugins.push('jsx');
+        }
+
+        return parse(content, {
+            sourceType: 'module',
+            errorRecovery: true,
+            plugins
+        });
+    }
+
+    /**
+     * Get the syntax constructs a node uses, as keys understood by mapJSSyntaxToBCD
+     */
+    private getSyntaxFeatures(path: NodePath, document: MockDocument): string[] {
+        const node = path.node;
+
+        switch (node.type) {
+            case 'LogicalExpression':
+                return node.operator === '??' ? ['??'] : [];
+            case 'AssignmentExpression':
+                return ['??=', '||=', '&&=', '**='].includes(node.operator) ? [node.operator] : [];
+            case 'BinaryExpression':
+                if (node.operator === '**') return ['**'];
+                return node.operator === 'in' && t.isPrivateName(node.left) ? ['#private in'] : [];
+            case 'OptionalMemberExpression':
+            case 'OptionalCallExpression':
+                // Only the link that introduces ?. is reported, not the rest of the chain
+                return node.optional ? ['?.'] : [];
+            case 'CallExpression':
+                if (!t.isImport(node.callee)) return [];
+                return node.arguments.length > 1 ? ['import()', 'import() options'] : ['import()'];
+            case 'MetaProperty':
+                return [`${node.meta.name}.${node.property.name}`];
+            case 'AwaitExpression':
+                return path.getFunctionParent() ? [] : ['top-level await'];
+            case 'ClassProperty':
+                if (node.declare || node.abstract) return [];
+                return [node.static ? 'static class fields' : 'class fields'];
+            case 'ClassPrivateProperty':
+                return ['#private fields'];
+            case 'ClassPrivateMethod':
+                return ['#private methods'];
+            case 'StaticBlock':
+                return ['static blocks'];
+            case 'Decorator':
+                // TypeScript compiles decorators away, plain JavaScript ships them as written
+                return document.languageId.startsWith('typescript') ? [] : ['decorators'];
+            case 'VariableDeclaration':
+                return node.kind === 'using' || node.kind === 'await using' ? ['using'] : [];
+            case 'ForOfStatement':
+                return node.await ? ['for await...of'] : [];
+            case 'FunctionDeclaration':
+            case 'FunctionExpression':
+            case 'ClassMethod':
+            case 'ObjectMethod':
+                return node.async && node.generator ? ['async generators'] : [];
+            case 'CatchClause':
+                return node.param ? [] : ['optional catch binding'];
+            case 'ImportDeclaration':
+            case 'ExportNamedDeclaration':
+            case 'ExportAllDeclaration':
+                if (!node.attributes?.length) return [];
+                return [node.extra?.deprecatedAssertSyntax ? 'import assertions' : 'import attributes'];
+            case 'ExportNamespaceSpecifier':
+                return ['export * as'];
+            case 'NumericLiteral':
+                return String(node.extra?.raw ?? '').includes('_') ? ['numeric separators'] : [];
+            case 'BigIntLiteral':
+                return String(node.extra?.raw ?? '').includes('_') ? ['BigInt', 'numeric separators'] : ['BigInt'];
+            case 'RegExpLiteral':
+                return this.getRegExpSyntax(node.pattern, node.flags);
+            default:
+                return [];
+        }
+    }
+
+    private getRegExpSyntax(pattern: string, flags: string): string[] {
+        const syntax: string[] = [];
+
+        for (const flag of ['d', 's', 'v']) {
+            if (flags.includes(flag)) {
+                syntax.push(`RegExp /${flag} flag`);
+            }
+        }
+        if (/\(\?<[=!]/.test(pattern)) syntax.push('RegExp lookbehind');
+        if (/\(\?<[a-zA-Z_$]/.test(pattern)) syntax.push('RegExp named groups');
+        if (/\(\?[ims]*-?[ims]+:/.test(pattern)) syntax.push('RegExp modifiers');
+        if (/\\[pP]\{/.test(pattern)) syntax.push('RegExp \\p{...}');
+
+        return syntax;
+    }
+
+    private analyzeIdentifier(path: NodePath<Identifier>, document: MockDocument): DetectedFeature[] {
+        const name = path.node.name;
+        const globalScope = this.getGlobalScope(document);
+
+        // Even common globals such as document are worth reporting in a worker
+        if (this.compatibilityService.isWindowOnlyGlobal(name, globalScope) &&
+            path.isReferencedIdentifier() && this.isGlobalReference(path, name)) {
+            return this.createWindowOnlyFeature(name, this.compatibilityService.mapJSAPIToBCD(name), path.node, document);
+        }
+
+        if (CLIJavaScriptAnalyzer.COMMON_GLOBALS.includes(name) || !path.isReferencedIdentifier() || !this.isGlobalReference(path, name)) {
+            return [];
+        }
+
+        // `new IntersectionObserver()` is the constructor, not just the interface
+        if (path.parentPath.isNewExpression() && path.parentPath.node.callee === path.node) {
+            const bcdKey = this.compatibilityService.mapJSConstructorToBCD(name);
+            return this.createNodeFeature(name, bcdKey, path.node, document);
+        }
+
+        const bcdKey = this.compatibilityService.mapJSAPIToBCD(name, globalScope);
+        return this.createNodeFeature(name, bcdKey, path.node, document);
+    }
+
+    private analyzeMemberExpression(path: NodePath<MemberExpression>, document: MockDocument): DetectedFeature[] {
+        const { object, property, computed } = path.node;
+        const member = getPropertyName(property, computed);
+        if (!member) {
+            return [];
+        }
+
+        // Static members of globals, e.g. Object.groupBy or Promise.withResolvers, and
+        // members of global instances, e.g. navigator.clipboard
+        if (t.isIdentifier(object)) {
+            if (this.isGlobalReference(path, object.name)) {
+                const globalScope = this.getGlobalScope(document);
+                if (this.compatibilityService.isWindowOnlyMember(object.name, member, globalScope)) {
+                    const bcdKey = this.compatibilityService.mapJSMemberToBCD(object.name, member);
+                    return this.createWindowOnlyFeature(`${object.name}.${member}`, bcdKey, property, document);
+                }
+
+                const bcdKey = this.compatibilityService.mapJSMemberToBCD(object.name, member, globalScope);
+                const features = this.createNodeFeature(`${object.name}.${member}`, bcdKey, property, document);
+
+                // Undeclared names such as `element` are usually instances defined elsewhere
+                if (features.length > 0) {
+                    return features;
+                }
+            }
+        }
+
+        // Explicit prototype access, e.g. Set.prototype.union
+        if (t.isMemberExpression(object) && t.isIdentifier(object.object) &&
+            getPropertyName(object.property, object.computed) === 'prototype' &&
+            this.isGlobalReference(path, object.object.name)) {
+            const bcdKey = this.compatibilityService.mapJSMethodToBCD(object.object.name, member);
+            return this.createNodeFeature(`${object.object.name}.prototype.${member}`, bcdKey, property, document);
+        }
+
+        return this.analyzeInstanceMember(path, member, document);
+    }
+
+    /**
+     * Report options of a method call that have compat data of their own, e.g.
+     * delegatesFocus in `this.attachShadow({ mode: 'open', delegatesFocus: true })`.
+     * A method reported as widely available has no feature, so an unambiguous
+     * method name is resolved on its own.
+     */
+    private analyzeCallOptions(path: NodePath<MemberExpression>, methodKey: string | undefined, document: MockDocument): DetectedFeature[] {
+        const call = path.parentPath;
+        if (!(call.isCallExpression() || call.isOptionalCallExpression()) || call.node.callee !== path.node) {
+            return [];
+        }
+
+        const member = getPropertyName(path.node.property, path.node.computed);
+        if (!methodKey && member) {
+            const candidates = this.compatibilityService.getPrototypeMethodCandidates(member);
+            methodKey = candidates.length === 1 ? candidates[0] : undefined;
+        }
+        if (!methodKey) {
+            return [];
+        }
+
+        const features: DetectedFeature[] = [];
+        for (const arg of call.node.arguments) {
+            if (!t.isObjectExpression(arg)) {
+                continue;
+            }
+
+            for (const prop of arg.properties) {
+                const option = t.isObjectProperty(prop) ? getPropertyName(prop.key, prop.computed) : null;
+                const bcdKey = option && this.compatibilityService.mapJSOptionToBCD(methodKey, option);
+                if (bcdKey) {
+                    const name = `${this.getMemberFeatureName(methodKey)}({ ${option} })`;
+                    features.push(...this.createNodeFeature(name, bcdKey, (prop as t.ObjectProperty).key, document));
+                }
+            }
+        }
+
+        return features;
+    }
+
+    /**
+     * Match a reference or member chain, e.g. `ds.popover.open`, against the
+     * javascript custom rules
+     */
+    private analyzeCustomMember(path: NodePath, document: MockDocument): DetectedFeature[] {
+        const node = path.node;
+        if (!this.customRules ||
+            (t.isIdentifier(node) && !path.isReferencedIdentifier()) ||
+            ((t.isMemberExpression(node) || t.isOptionalMemberExpression(node)) && !getPropertyName(node.property, node.computed))) {
+            return [];
+        }
+
+        return this.createCustomFeatures(this.customRules.matchJSMember(this.getChainNames(node)), node, 'javascript', document);
+    }
+
+    /**
+     * Resolve a member of an instance, e.g. arr.at(-1), through the inferred type of
+     * its receiver. Calls on receivers of unknown type are matched against every
+     * built-in with a method of that name and reported at low confidence.
+     */
+    private analyzeInstanceMember(path: NodePath<MemberExpression>, member: string, document: MockDocument): DetectedFeature[] {
+        const property = path.node.property;
+        const receiverType = this.typeInference.inferType(path.get('object') as NodePath, 0, this.getGlobalScope(document));
+
+        if (receiverType) {
+            const bcdKey = this.compatibilityService.mapJSMethodToBCD(receiverType, member);
+            return this.createNodeFeature(this.getMemberFeatureName(bcdKey), bcdKey, property, document, 'high');
+        }
+
+        const isCall = (path.parentPath.isCallExpression() || path.parentPath.isOptionalCallExpression()) &&
+            path.parentPath.node.callee === path.node;
+        if (!isCall) {
+            return [];
+        }
+
+        // If any candidate is widely available, the call is most likely safe
+        const candidates = this.compatibilityService.getPrototypeMethodCandidates(member)
+            .map(bcdKey => ({ bcdKey, baselineStatus: this.compatibilityService.getBCDStatus(bcdKey) }))
+            .filter((c): c is { bcdKey: string; baselineStatus: BaselineStatus } => !!c.baselineStatus);
+        if (candidates.length === 0 || candidates.some(c => c.baselineStatus.status === 'widely_available')) {
+            return [];
+        }
+
+        // Report the least available candidate, since any of them could be the real receiver
+        candidates.sort((a, b) => STATUS_RISK_ORDER[a.baselineStatus.status] - STATUS_RISK_ORDER[b.baselineStatus.status]);
+
+        const candidateNames = candidates.map(c => c.bcdKey.replace(/^javascript\.builtins\./, ''));
+
+        return this.createNodeFeature(
+            this.getMemberFeatureName(candidates[0].bcdKey),
+            candidates[0].bcdKey,
+            property,
+            document,
+            'low',
+            `Receiver type unknown, could be ${candidateNames.join(', ')}`
+        );
+    }
+
+    /**
+     * Name a member by its BCD key, e.g. "Array.prototype.at" or "Clipboard.writeText"
+     */
+    private getMemberFeatureName(bcdKey: string): string {
+        const builtin = bcdKey.match(/^javascript\.builtins\.(\w+)\.(\w+)$/);
+        return builtin ? `${builtin[1]}.prototype.${builtin[2]}` : bcdKey.replace(/^api\./, '');
+    }
+
+    /**
+     * Report the HTML elements and attributes of JSX intrinsic elements, e.g.
+     * `<dialog>` or `<button popoverTarget="menu">`. Components start with an
+     * uppercase letter and are skipped, as are event handlers and React-only props.
+     */
+    private analyzeJSXElement(element: t.JSXOpeningElement, document: MockDocument, isSVG: boolean): DetectedFeature[] {
+        if (!t.isJSXIdentifier(element.name)) {
+            return [];
+        }
+
+        // Custom rules also apply to custom elements and components, e.g. <ui-popover>
+        const customFeatures = this.analyzeJSXCustomRules(element, element.name.name, document);
+        if (isSVG) {
+            return [...this.analyzeJSXSVGElement(element, element.name.name, document), ...customFeatures];
+        }
+        if (!/^[a-z][a-z0-9]*$/.test(element.name.name)) {
+            return customFeatures;
+        }
+
+        const features: DetectedFeature[] = [];
+        const tagName = element.name.name;
+
+        if (!CLIHTMLAnalyzer.COMMON_ELEMENTS.includes(tagName)) {
+            const bcdKey = this.compatibilityService.mapHTMLElementToBCD(tagName);
+            features.push(...this.createNodeFeature(tagName, bcdKey, element.name, document));
+        }
+
+        for (const attr of element.attributes) {
+            if (!t.isJSXAttribute(attr) || !t.isJSXIdentifier(attr.name)) {
+                continue;
+            }
+
+            const prop = attr.name.name;
+            if (/^on[A-Z]/.test(prop) || CLIJavaScriptAnalyzer.JSX_REACT_PROPS.includes(prop)) {
+                continue;
+            }
+
+            const attribute = CLIJavaScriptAnalyzer.JSX_PROP_ATTRIBUTES[prop] || prop.toLowerCase();
+            if (attribute.startsWith('data-') || attribute.startsWith('aria-')) {
+                continue;
+            }
+
+            if (!CLIHTMLAnalyzer.COMMON_ATTRIBUTES.includes(attribute)) {
+                const bcdKey = this.compatibilityService.mapHTMLElementToBCD(tagName, attribute);
+                features.push(...this.createNodeFeature(getAttributeLabel(tagName, attribute, bcdKey), bcdKey, attr.name, document));
+            }
+
+            features.push(...this.analyzeJSXAttributeValue(tagName, attribute, attr.value, document));
+        }
+
+        // Markup is reported as HTML, the same as features found in .html files
+        features.forEach(feature => feature.type = 'html');
+        return [...features, ...customFeatures];
+    }
+
+    /**
+     * Check whether a JSX element is SVG: an <svg>, an element inside one but not
+     * inside a <foreignObject>, or an element only SVG has, e.g. <feDropShadow>
+     * in a component that returns part of a drawing
+     */
+    private isJSXSVGElement(path: NodePath<t.JSXOpeningElement>): boolean {
+        const name = path.node.name;
+        if (!t.isJSXIdentifier(name) || !/^[a-z]/.test(name.name)) {
+            return false;
+        }
+
+        const container = path.findParent(parent =>
+            parent.isJSXElement() && t.isJSXIdentifier(parent.node.openingElement.name) &&
+            ['svg', 'foreignObject'].includes(parent.node.openingElement.name.name)
+        ) as NodePath<t.JSXElement> | null;
+        if (container) {
+            return (container.node.openingElement.name as t.JSXIdentifier).name === 'svg' || container.node.openingElement === path.node;
+        }
+
+        return !!this.compatibilityService.mapSVGElementToBCD(name.name) &&
+            !this.compatibilityService.getBCDData(this.compatibilityService.mapHTMLElementToBCD(name.name));
+    }
+
+    /**
+     * Report an SVG element in JSX and its props. React spells SVG attributes in
+     * camelCase, e.g. paintOrder for paint-order and xlinkHref for xlink:href,
+     * while some such as viewBox are camelCase in SVG too.
+     */
+    private analyzeJSXSVGElement(element: t.JSXOpeningElement, tagName: string, document: MockDocument): DetectedFeature[] {
+        const elementKey = this.compatibilityService.mapSVGElementToBCD(tagName);
+        if (!elementKey) {
+            return [];
+        }
+
+        const features: DetectedFeature[] = [];
+        const elementName = getSVGElementLabel(elementKey);
+        if (!CLIHTMLAnalyzer.COMMON_SVG_ELEMENTS.includes(elementName)) {
+            features.push(...this.createNodeFeature(elementName, elementKey, element.name, document));
+        }
+
+        for (const attr of element.attributes) {
+            if (!t.isJSXAttribute(attr)) {
+                continue;
+            }
+
+            const prop = t.isJSXNamespacedName(attr.name) ? `${attr.name.namespace.name}:${attr.name.name.name}` : attr.name.name;
+            if (/^on[A-Z]/.test(prop) || CLIJavaScriptAnalyzer.JSX_REACT_PROPS.includes(prop)) {
+                continue;
+            }
+
+            const attribute = CLIJavaScriptAnalyzer.JSX_PROP_ATTRIBUTES[prop] ||
+                prop.replace(/^(xlink|xml)([A-Z])/, (_, namespace: string, first: string) => `${namespace}:${first.toLowerCase()}`);
+            if (attribute.startsWith('data-') || attribute.startsWith('aria-') || CLIHTMLAnalyzer.COMMON_SVG_ATTRIBUTES.includes(attribute)) {
+                continue;
+            }
+
+            const bcdKey = this.compatibilityService.mapSVGElementToBCD(elementName, attribute) ||
+                this.compatibilityService.mapSVGElementToBCD(elementName, attribute.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`));
+            if (bcdKey) {
+                const label = getAttributeLabel(elementName, bcdKey.split('.').pop()!.replace(/^(xlink|xml)_/, '$1:'), bcdKey);
+                features.push(...this.createNodeFeature(label, bcdKey, attr.name, document));
+            }
+        }
+
+        features.forEach(feature => feature.type = 'html');
+        return features;
+    }
+
+    private analyzeJSXCustomRules(element: t.JSXOpeningElement, tagName: string, document: MockDocument): DetectedFeature[] {
+        if (!this.customRules) {
+            return [];
+        }
+
+        const features = this.createCustomFeatures(this.customRules.matchHTMLElement(tagName), element.name, 'html', document);
+
+        for (const attr of element.attributes) {
+            if (t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name)) {
+                const attribute = CLIJavaScriptAnalyzer.JSX_PROP_ATTRIBUTES[attr.name.name] || attr.name.name;
+                features.push(...this.createCustomFeatures(this.customRules.matchHTMLAttribute(tagName, attribute), attr.name, 'html', document));
+            }
+        }
+
+        return features;
+    }
+
+    /**
+     * Report enumerated values given as string literals, e.g. `type="color"` or `rel={'modulepreload'}`
+     */
+    private analyzeJSXAttributeValue(tagName: string, attribute: string, value: t.JSXAttribute['value'], document: MockDocument): DetectedFeature[] {
+        const literal = t.isJSXExpressionContainer(value) ? value.expression : value;
+        if (!t.isStringLiteral(literal)) {
+            return [];
+        }
+
+        return getAttributeValueMatches(this.compatibilityService, tagName, attribute, literal.value)
+            .flatMap(match => this.createNodeFeature(match.name, match.bcdKey, literal, document));
+    }
+
+    /**
+     * Check for a CSS-in-JS tag or function, e.g. css, styled.div, styled(Button)
+     * or styled.div.attrs(...)
+     */
+    private isCSSTag(node: t.Node): boolean {
+        if (t.isIdentifier(node)) {
+            return CLIJavaScriptAnalyzer.CSS_TAGS.includes(node.name);
+        }
+        if (t.isMemberExpression(node)) {
+            return t.isIdentifier(node.object, { name: 'styled' }) || this.isCSSTag(node.object);
+        }
+        if (t.isCallExpression(node)) {
+            return t.isIdentifier(node.callee, { name: 'styled' }) || (t.isMemberExpression(node.callee) && this.isCSSTag(node.callee));
+        }
+        return false;
+    }
+
+    /**
+     * Check whether a tag is imported from Lit, whose `css` templates reach the
+     * browser as written. styled-components and Emotion compile nesting away.
+     */
+    private isLitTag(path: NodePath<t.TaggedTemplateExpression>): boolean {
+        const [root] = this.getChainNames(path.node.tag);
+        const declaration = root ? path.scope.getBinding(root)?.path.parentPath : null;
+        if (!declaration?.isImportDeclaration()) {
+            return false;
+        }
+
+        const source = declaration.node.source.value;
+        return source === 'lit' || source.startsWith('lit/') || source.startsWith('lit-element') || source.startsWith('@lit/');
+    }
+
+    /**
+     * Get the CSS of a tagged template. Each `${...}` is replaced by a comment of the
+     * same length, which is valid anywhere in CSS and keeps every position intact.
+     */
+    private getTemplateFragment(quasi: t.TemplateLiteral, content: string): CSSFragment {
+        const start = quasi.start! + 1;
+        let css = '';
+
+        quasi.quasis.forEach((element, i) => {
+            css += content.slice(i === 0 ? start : element.start!, element.end!);
+
+            const next = quasi.quasis[i + 1];
+            if (next) {
+                css += this.getPlaceholderComment(content.slice(element.end!, next.start!));
+            }
+        });
+
+        return {
+            region: {
+                content: css,
+                languageId: 'css',
+                start: { line: quasi.loc!.start.line - 1, character: quasi.loc!.start.column + 1 }
+            }
+        };
+    }
+
+    /**
+     * Turn a `${...}` interpolation into a comment of the same length. Its line
+     * breaks are kept, so the lines after it keep their numbers. The comment opens
+     * on `${` and closes on the last two characters that share a line; without
+     * room for both it becomes whitespace.
+     */
+    private getPlaceholderComment(interpolation: string): string {
+        const chars = interpolation.replace(/[^\r\n]/g, ' ').split('');
+        const isBreak = (i: number) => chars[i] === '\r' || chars[i] === '\n';
+
+        for (let end = chars.length - 1; end > 2; end--) {
+            if (!isBreak(end) && !isBreak(end - 1)) {
+                chars.splice(0, 2, '/', '*');
+                chars.splice(end - 1, 2, '*', '/');
+                break;
+            }
+        }
+        return chars.join('');
+    }
+
+    /**
+     * Get one declaration per property of an object style, e.g. `{ aspectRatio: '16 / 9' }`
+     * becomes `aspect-ratio: 16 / 9`. Nested objects, such as `'&:hover': {...}`, are
+     * searched too. Values other than literals are left empty.
+     */
+    private getObjectStyleFragments(node: t.Node): CSSFragment[] {
+        if (!t.isObjectExpression(node)) {
+            return [];
+        }
+
+        const fragments: CSSFragment[] = [];
+
+        for (const property of node.properties) {
+            if (!t.isObjectProperty(property) || property.computed || !property.loc) {
+                continue;
+            }
+
+            if (t.isObjectExpression(property.value)) {
+                fragments.push(...this.getObjectStyleFragments(property.value));
+                continue;
+            }
+
+            const key = getPropertyName(property.key, false);
+            if (!key) {
+                continue;
+            }
+
+            const value = property.value;
+            const valueText = t.isStringLiteral(value) ? value.value
+                : t.isNumericLiteral(value) ? String(value.value)
+                : t.isTemplateLiteral(value) && value.expressions.length === 0 ? value.quasis[0].value.cooked || ''
+                : '';
+
+            fragments.push({
+                region: {
+                    content: `${this.toCSSPropertyName(key)}: ${valueText}`,
+                    languageId: 'css',
+                    start: { line: property.loc.start.line - 1, character: property.loc.start.column }
+                },
+                anchor: property
+            });
+        }
+
+        return fragments;
+    }
+
+    /**
+     * Convert a camelCase style key to a CSS property, e.g. WebkitLineClamp to -webkit-line-clamp
+     */
+    private toCSSPropertyName(key: string): string {
+        if (key.startsWith('--') || key.includes('-')) {
+            return key;
+        }
+
+        const property = key.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+        return /^(webkit|moz|ms|o)-/.test(property) ? `-${property}` : property;
+    }
+
+    private async analyzeCSSFragment(fragment: CSSFragment, document: MockDocument): Promise<DetectedFeature[]> {
+        if (!this.cssAnalyzer) {
+            return [];
+        }
+
+        const { region, anchor } = fragment;
+        const features = mapFeaturesToHost(await this.cssAnalyzer.analyze(region.content, createRegionDocument(document, region)), region)
+            .filter(feature => !fragment.compilesNesting || !feature.bcdKey?.startsWith('css.selectors.nesting'));
+
+        if (anchor?.loc) {
+            const start = { line: anchor.loc.start.line - 1, character: anchor.loc.start.column };
+            const end = { line: anchor.loc.end.line - 1, character: anchor.loc.end.column };
+            return features.map(feature => ({ ...feature, line: start.line, column: start.character, range: { start, end } }));
+        }
+
+        return features;
+    }
+
+    /**
+     * Flag API features that only run once feature detection has passed, e.g. inside
+     * `if ('share' in navigator)`. Syntax cannot be feature-detected at runtime, so
+     * only identifiers and member expressions are checked.
+     */
+    private markGuarded(path: NodePath, features: DetectedFeature[]): DetectedFeature[] {
+        if (features.length > 0 && this.isGuarded(path)) {
+            features.forEach(feature => feature.guarded = true);
+        }
+        return features;
+    }
+
+    private isGuarded(path: NodePath): boolean {
+        // A check for `navigator` itself only detects the environment, not the member used
+        const chain = this.getChainNames(path.node);
+        const names = chain.length > 1 ? chain.slice(1) : chain;
+        const guardedNames = new Set<string>();
+
+        for (let child = path, parent = path.parentPath; parent; child = parent, parent = parent.parentPath) {
+            const node = parent.node;
+
+            if (parent.isIfStatement() || parent.isConditionalExpression()) {
+                const test = (node as t.IfStatement | t.ConditionalExpression).test;
+                // The check itself is guarded whichever way it is phrased
+                if (child.node === test || child.node === (node as t.IfStatement).consequent) {
+                    this.collectGuardNames(test, false, guardedNames);
+                }
+                if (child.node === test || child.node === (node as t.IfStatement).alternate) {
+                    this.collectGuardNames(test, true, guardedNames);
+                }
+            } else if (parent.isLogicalExpression()) {
+                const { operator, left } = parent.node;
+                // `'share' in navigator && navigator.share()` and `!X || X.use()`
+                if (child.node === left || operator === '&&') {
+                    this.collectGuardNames(left, false, guardedNames);
+                }
+                if (child.node === left || operator === '||') {
+                    this.collectGuardNames(left, true, guardedNames);
+                }
+            } else if (parent.isBlockStatement() || parent.isProgram()) {
+                // Early exits such as `if (!('share' in navigator)) return;` guard the statements after them
+                for (const statement of (node as t.BlockStatement | t.Program).body) {
+                    if (statement === child.node) {
+                        break;
+                    }
+                    if (t.isIfStatement(statement) && !statement.alternate && this.isEarlyExit(statement.consequent)) {
+                        this.collectGuardNames(statement.test, true, guardedNames);
+                    }
+                }
+            }
+        }
+
+        return names.some(name => guardedNames.has(name));
+    }
+
+    /**
+     * Collect the API names a condition checks for when it is truthy, or falsy if
+     * negated. `CSS.supports(...)` is collected as the properties it tests, in both
+     * CSS and style object spelling, e.g. "text-wrap" and "textWrap".
+     */
+    private collectGuardNames(test: t.Node, negated: boolean, names: Set<string>): void {
+        if (t.isParenthesizedExpression(test)) {
+            this.collectGuardNames(test.expression, negated, names);
+        } else if (t.isUnaryExpression(test) && test.operator === '!') {
+            this.collectGuardNames(test.argument, !negated, names);
+        } else if (t.isLogicalExpression(test)) {
+            // Both sides hold when `a && b` is truthy or `a || b` is falsy
+            if ((test.operator === '&&' && !negated) || (test.operator === '||' && negated)) {
+                this.collectGuardNames(test.left, negated, names);
+                this.collectGuardNames(test.right, negated, names);
+            }
+        } else if (t.isBinaryExpression(test)) {
+            this.collectComparisonGuardNames(test, negated, names);
+        } else if (!negated && (t.isCallExpression(test) || t.isOptionalCallExpression(test))) {
+            if (this.typeInference.getCalleeName(test.callee) === 'CSS.supports') {
+                names.add('supports');
+                this.getSupportsProperties(test.arguments).forEach(property => {
+                    names.add(property);
+                    names.add(property.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase()));
+                });
+            }
+        } else if (!negated) {
+            const [name] = this.getChainNames(test).slice(-1);
+            if (name) {
+                names.add(name);
+            }
+        }
+    }
+
+    /**
+     * Get the properties tested by `CSS.supports('prop', 'value')` or
+     * `CSS.supports('(prop: value) and ...')`
+     */
+    private getSupportsProperties(args: t.CallExpression['arguments']): string[] {
+        const [condition] = args;
+        if (!t.isStringLiteral(condition)) {
+            return [];
+        }
+        if (args.length > 1) {
+            return [condition.value.trim().toLowerCase()];
+        }
+        return Array.from(condition.value.matchAll(/\(\s*([a-z-]+)\s*:/gi), match => match[1].toLowerCase());
+    }
+
+    private collectComparisonGuardNames(test: t.BinaryExpression, negated: boolean, names: Set<string>): void {
+        const { operator, left, right } = test;
+
+        if (operator === 'in') {
+            if (!negated && t.isStringLiteral(left)) {
+                names.add(left.value);
+            }
+            return;
+        }
+
+        // typeof X !== 'undefined', typeof X === 'function', X !== undefined
+        const isEquality = operator === '===' || operator === '==';
+        if (!isEquality && operator !== '!==' && operator !== '!=') {
+            return;
+        }
+
+        const [subject, other] = t.isUnaryExpression(left, { operator: 'typeof' }) || t.isStringLiteral(right) ||
+            t.isIdentifier(right, { name: 'undefined' }) || t.isNullLiteral(right) ? [left, right] : [right, left];
+        const target = t.isUnaryExpression(subject, { operator: 'typeof' }) ? subject.argument : subject;
+        const checksMissing = t.isStringLiteral(other, { value: 'undefined' }) ||
+            t.isIdentifier(other, { name: 'undefined' }) || t.isNullLiteral(other);
+
+        // The API exists when the check for "missing" fails, or a check for a type passes
+        const exists = checksMissing ? isEquality === negated : isEquality !== negated;
+        const [name] = this.getChainNames(target).slice(-1);
+        if (exists && name) {
+            names.add(name);
+        }
+    }
+
+    private isEarlyExit(statement: t.Statement): boolean {
+        if (t.isBlockStatement(statement)) {
+            const last = statement.body[statement.body.length - 1];
+            return last !== undefined && this.isEarlyExit(last);
+        }
+        return t.isReturnStatement(statement) || t.isThrowStatement(statement) ||
+            t.isContinueStatement(statement) || t.isBreakStatement(statement);
+    }
+
+    /**
+     * Get the names along a member chain, e.g. ["navigator", "clipboard", "writeText"]
+     */
+    private getChainNames(node: t.Node): string[] {
+        if (t.isIdentifier(node)) {
+            return [node.name];
+        }
+        if (t.isMemberExpression(node) || t.isOptionalMemberExpression(node)) {
+            const member = getPropertyName(node.property, node.computed);
+            const objectNames = this.getChainNames(node.object);
+            return member ? [...objectNames, member] : objectNames;
+        }
+        if (t.isCallExpression(node) || t.isOptionalCallExpression(node)) {
+            return this.getChainNames(node.callee);
+        }
+        return [];
+    }
+
+    /**
+     * Check that a name refers to a global rather than a local binding or a type
+     */
+    private isGlobalReference(path: NodePath, name: string): boolean {
+        if (path.scope.hasBinding(name, true)) {
+            return false;
+        }
+
+        return !path.findParent(parent =>
+            parent.isTSTypeAnnotation() ||
+            parent.isTSTypeReference() ||
+            parent.isTSInterfaceDeclaration() ||
+            parent.isTSTypeAliasDeclaration() ||
+            parent.isTSTypeParameterInstantiation() ||
+            parent.isTSExpressionWithTypeArguments() ||
+            parent.isTSTypeQuery()
+        );
+    }
+
+    private createNodeFeature(
+        name: string,
+        bcdKey: string,
+        node: t.Node,
+        document: MockDocument,
+        confidence?: DetectedFeature['confidence'],
+        context: string = name
+    ): DetectedFeature[] {
+        const baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
+        if (!baselineStatus || !node.loc) {
+            return [];
+        }
+
+        return [createFeature({
+            name,
+            type: 'javascript',
+            bcdKey,
+            baselineStatus,
+            start: { line: node.loc.start.line - 1, character: node.loc.start.column },
+            end: { line: node.loc.end.line - 1, character: node.loc.end.column },
+            context,
+            confidence,
+            document
+        })];
+    }
+
+    /**
+     * Get the interface of the global object a script runs with, e.g. Window
+     */
+    private getGlobalScope(document: MockDocument): string {
+        return GLOBAL_SCOPES[document.executionContext || 'window'];
+    }
+
+    /**
+     * Report a global of window contexts used in a worker, where no browser has it
+     */
+    private createWindowOnlyFeature(name: string, bcdKey: string, node: t.Node, document: MockDocument): DetectedFeature[] {
+        const loc = node.loc;
+        if (!loc) {
+            return [];
+        }
+
+        return [createFeature({
+            name: `${name} (window only)`,
+            type: 'javascript',
+            bcdKey,
+            baselineStatus: { status: 'limited_availability', supportPercentage: 0 },
+            start: { line: loc.start.line - 1, character: loc.start.column },
+            end: { line: loc.end.line - 1, character: loc.end.column },
+            context: `Not available in ${CONTEXT_LABELS[document.executionContext || 'window']}s`,
+            document
+        })];
+    }
+
+    /**
+     * Mark a feature of a worker script with its context, and use the Web API's
+     * worker support where BCD records it separately and it is the worse one
+     */
+    private applyWorkerSupport(feature: DetectedFeature, executionContext: ExecutionContext): void {
+        feature.executionContext = executionContext;
+
+        const workerKey = feature.bcdKey && this.compatibilityService.getWorkerSupportKey(feature.bcdKey);
+        const workerStatus = workerKey ? this.compatibilityService.getBCDStatus(workerKey) : null;
+        if (workerStatus && STATUS_RISK_ORDER[workerStatus.status] < STATUS_RISK_ORDER[feature.baselineStatus.status]) {
+            feature.baselineStatus = workerStatus;
+        }
+    }
+
+    private createCustomFeatures(
+        matches: CustomRuleMatch[],
+        node: t.Node,
+        type: DetectedFeature['type'],
+        document: MockDocument
+    ): DetectedFeature[] {
+        const loc = node.loc;
+        if (!loc) {
+            return [];
+        }
+
+        return matches.map(match => createFeature({
+            ...match,
+            type,
+            start: { line: loc.start.line - 1, character: loc.start.column },
+            end: { line: loc.end.line - 1, character: loc.end.column },
+            context: match.name,
+            document
+        }));
+    }
+}
+
+export class CLIHTMLAnalyzer {
+    // Elements and attributes so widely supported that reporting them only adds noise,
+    // shared with the JSX checks in CLIJavaScriptAnalyzer
+    static readonly COMMON_ELEMENTS = ['div', 'span', 'p', 'a', 'img', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+    static readonly COMMON_ATTRIBUTES = [
+        'id', 'class', 'style', 'title', 'lang', 'dir', 'hidden', 'tabindex', 'href', 'src', 'alt',
+        'name', 'value', 'type', 'rel', 'width', 'height', 'content', 'charset', 'for', 'role'
+    ];
+    static readonly COMMON_SVG_ELEMENTS = [
+        'svg', 'g', 'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'defs', 'title',
+        'desc', 'symbol', 'use', 'text', 'tspan', 'stop', 'linearGradient', 'radialGradient'
+    ];
+    static readonly COMMON_SVG_ATTRIBUTES = [
+        'id', 'class', 'style', 'fill', 'stroke', 'transform', 'width', 'height', 'x', 'y', 'd', 'viewBox',
+        'cx', 'cy', 'r', 'rx', 'ry'
+    ];
+
+    // Svelte directives such as on:click or bind:value, which compile away
+    private static readonly SVELTE_DIRECTIVES = /^(on|bind|class|style|use|transition|in|out|animate|let):/;
+
+    // Vue's built-in components, which render no element of their own name
+    private static readonly VUE_BUILTIN_COMPONENTS = ['component', 'transition', 'transition-group', 'keep-alive', 'teleport', 'suspense'];
+
+    // <script> types that hold JavaScript, as opposed to import maps, JSON or templates
+    private static readonly SCRIPT_TYPES = ['', 'module', 'text/javascript', 'application/javascript'];
+
+    /**
+     * Inline CSS and JavaScript is passed to the given analyzers. Leave one out to
+     * skip that kind of inline code, e.g. when its analyzer is disabled.
+     */
+    constructor(
+        private compatibilityService: CompatibilityDataService,
+        private cssAnalyzer?: CLICSSAnalyzer,
+        private jsAnalyzer?: CLIJavaScriptAnalyzer,
+        private customRules?: CustomRuleSet
+    ) {}
+
+    async analyze(content: string, document: MockDocument): Promise<DetectedFeature[]> {
+        const features: DetectedFeature[] = [];
+        
+        try {
+            const root = this.parseMarkup(content, document);
+            const lines = new LineIndex(content);
+            const regions: EmbeddedRegion[] = [];
+
+            this.walkElements(root, element => {
+                features.push(...this.analyzeElement(element, content, document, lines));
+                regions.push(...this.getInlineRegions(element, content, lines));
+            });
+
+            for (const region of regions) {
+                features.push(...await this.analyzeInlineRegion(region, document));
+            }
+        } catch (error) {
+            // Ignore parsing errors for CLI
+        }
+        
+        return features;
+    }
+
+    /**
+     * Parse markup into a parse5 tree. Elements the parser inserts implicitly,
+     * such as a missing <body>, have no source location and are not reported.
+     */
+    parseMarkup(content: string, document: MockDocument): HTMLParentNode {
+        return parse5.parse(content, { sourceCodeLocationInfo: true });
+    }
+
+    /**
+     * Visit every element in document order, including the contents of <template>
+     */
+    walkElements(node: HTMLParentNode, visit: (element: HTMLElementNode) => void): void {
+        for (const child of node.childNodes) {
+            if (!('tagName' in child)) {
+                continue;
+            }
+
+            visit(child);
+            this.walkElements(child.tagName === 'template' ? (child as HTMLTemplateNode).content : child, visit);
+        }
+    }
+
+    private analyzeElement(element: HTMLElementNode, content: string, document: MockDocument, lines: LineIndex): DetectedFeature[] {
+        const location = element.sourceCodeLocation;
+        if (!location) {
+            return [];
+        }
+
+        const features: DetectedFeature[] = [];
+        const tagName = element.tagName.toLowerCase();
+        const isSvelte = document.languageId === 'svelte';
+
+        // <svelte:head>, <svelte:window> and friends are compiler instructions, not elements
+        if (isSvelte && tagName.startsWith('svelte:')) {
+            return features;
+        }
+
+        // parse5 lowercases tag names, so a component such as <Dialog> is told apart by its name as written
+        const writtenName = content.substr(location.startOffset + 1, tagName.length);
+        // A Vue template is analyzed as html, so its host file tells it apart
+        const isVue = /\.vue$/i.test(document.fileName);
+        if ((isVue || isSvelte) && this.isComponentTag(writtenName, isVue)) {
+            return features;
+        }
+
+        // Elements inside <svg> are looked up in the SVG compat data
+        const isSVG = element.namespaceURI === parse5.html.NS.SVG;
+        const svgKey = isSVG ? this.compatibilityService.mapSVGElementToBCD(tagName) : null;
+        const svgName = svgKey ? getSVGElementLabel(svgKey) : tagName;
+
+        if (svgKey) {
+            if (!CLIHTMLAnalyzer.COMMON_SVG_ELEMENTS.includes(svgName)) {
+                features.push(...this.createMarkupFeature(svgName, svgKey, location.startOffset + 1, tagName.length, document, lines));
+            }
+        } else if (!isSVG && !CLIHTMLAnalyzer.COMMON_ELEMENTS.includes(tagName)) {
+            features.push(...this.createMarkupFeature(
+                tagName,
+                this.compatibilityService.mapHTMLElementToBCD(tagName),
+                location.startOffset + 1,
+                tagName.length,
+                document,
+                lines
+            ));
+        }
+
+        if (this.customRules) {
+            const matches = this.customRules.matchHTMLElement(tagName);
+            features.push(...this.createCustomFeatures(matches, location.startOffset + 1, tagName.length, document, lines));
+        }
+
+        for (const attr of element.attrs) {
+            if (isSvelte && CLIHTMLAnalyzer.SVELTE_DIRECTIVES.test(attr.name)) {
+                continue;
+            }
+
+            // Namespaced SVG attributes such as xlink:href keep their prefix separately
+            const attrName = attr.prefix ? `${attr.prefix}:${attr.name}` : attr.name;
+            const attrLocation = location.attrs?.[attrName.toLowerCase()];
+            if (attrLocation) {
+                features.push(...(isSVG
+                    ? this.analyzeSVGAttribute(svgName, attrName, attrLocation.startOffset, document, lines)
+                    : this.analyzeAttribute(tagName, attr.name, attr.value, attrLocation.startOffset, content, document, lines)));
+
+                if (this.customRules) {
+                    const matches = this.customRules.matchHTMLAttribute(tagName, attrName);
+                    features.push(...this.createCustomFeatures(matches, attrLocation.startOffset, attrName.length, document, lines));
+                }
+            }
+        }
+
+        return features;
+    }
+
+    /**
+     * Check whether a tag in a component template names a component rather than
+     * an element: PascalCase, e.g. <Dialog>, or namespaced, e.g. <Form.Field>
+     */
+    private isComponentTag(writtenName: string, isVue: boolean): boolean {
+        return /^[A-Z]|\./.test(writtenName) ||
+            (isVue && CLIHTMLAnalyzer.VUE_BUILTIN_COMPONENTS.includes(writtenName.toLowerCase()));
+    }
+
+    /**
+     * Report an attribute, e.g. `popover` or `loading`, and its value where BCD
+     * tracks values separately, e.g. `type="color"` or `rel="modulepreload"`
+     */
+    private analyzeAttribute(
+        tagName: string,
+        name: string,
+        value: string,
+        startOffset: number,
+        content: string,
+        document: MockDocument,
+        lines: LineIndex
+    ): DetectedFeature[] {
+        const features: DetectedFeature[] = [];
+        const attribute = name.toLowerCase();
+
+        if (attribute.startsWith('data-') || attribute.startsWith('aria-')) {
+            return features;
+        }
+
+        if (!CLIHTMLAnalyzer.COMMON_ATTRIBUTES.includes(attribute)) {
+            const bcdKey = this.compatibilityService.mapHTMLElementToBCD(tagName, attribute);
+            features.push(...this.createMarkupFeature(getAttributeLabel(tagName, attribute, bcdKey), bcdKey, startOffset, name.length, document, lines));
+        }
+
+        const valueOffset = content.indexOf(value, startOffset + name.length);
+
+        // Media queries in the head, e.g. <meta name="theme-color" media="(prefers-color-scheme: dark)">
+        if (attribute === 'media' && this.cssAnalyzer && valueOffset >= 0) {
+            features.push(...this.cssAnalyzer.analyzeMediaFeatures(value, valueOffset, document, lines));
+        }
+
+        for (const match of getAttributeValueMatches(this.compatibilityService, tagName, attribute, value)) {
+            const tokenOffset = valueOffset >= 0 ? content.indexOf(match.token, valueOffset) : startOffset;
+            features.push(...this.createMarkupFeature(match.name, match.bcdKey, tokenOffset, match.token.length, document, lines));
+        }
+
+        return features;
+    }
+
+    /**
+     * Report an attribute of an SVG element, e.g. `paint-order` or `xlink:href`
+     */
+    private analyzeSVGAttribute(elementName: string, name: string, startOffset: number, document: MockDocument, lines: LineIndex): DetectedFeature[] {
+        if (name.startsWith('data-') || name.startsWith('aria-') || CLIHTMLAnalyzer.COMMON_SVG_ATTRIBUTES.includes(name)) {
+            return [];
+        }
+
+        const bcdKey = this.compatibilityService.mapSVGElementToBCD(elementName, name);
+        if (!bcdKey) {
+            return [];
+        }
+
+        return this.createMarkupFeature(getAttributeLabel(elementName, name, bcdKey), bcdKey, startOffset, name.length, document, lines);
+    }
+
+    /**
+     * Get the CSS and JavaScript embedded in an element: the body of <style> and
+     * <script> elements, style="" attributes and on* event handler attributes
+     */
+    private getInlineRegions(element: HTMLElementNode, content: string, lines: LineIndex): EmbeddedRegion[] {
+        const location = element.sourceCodeLocation;
+        if (!location) {
+            return [];
+        }
+
+        const regions: EmbeddedRegion[] = [];
+        const tagName = element.tagName.toLowerCase();
+        const type = (element.attrs.find(attr => attr.name === 'type')?.value || '').trim().toLowerCase();
+
+        if ((tagName === 'style' || (tagName === 'script' && CLIHTMLAnalyzer.SCRIPT_TYPES.includes(type))) &&
+            location.startTag && location.endTag) {
+            regions.push({
+                content: content.slice(location.startTag.endOffset, location.endTag.startOffset),
+                languageId: tagName === 'style' ? 'css' : 'javascript',
+                start: lines.positionAt(location.startTag.endOffset)
+            });
+        }
+
+        for (const attr of element.attrs) {
+            const attrLocation = location.attrs?.[attr.name];
+            const languageId = attr.name === 'style' ? 'css' : /^on[a-z]+$/.test(attr.name) ? 'javascript' : null;
+            if (!attrLocation || !languageId) {
+                continue;
+            }
+
+            // Use the source text of the value, since attr.value has its entities decoded
+            const source = content.slice(attrLocation.startOffset, attrLocation.endOffset);
+            const value = source.match(/^[^=]*=\s*(["']?)([\s\S]*?)\1$/);
+            if (value && value[2].trim()) {
+                const valueOffset = attrLocation.startOffset + source.length - value[1].length - value[2].length;
+                regions.push({ content: value[2], languageId, start: lines.positionAt(valueOffset) });
+            }
+        }
+
+        return regions;
+    }
+
+    private async analyzeInlineRegion(region: EmbeddedRegion, document: MockDocument): Promise<DetectedFeature[]> {
+        const analyzer = region.languageId === 'css' ? this.cssAnalyzer : this.jsAnalyzer;
+        if (!analyzer) {
+            return [];
+        }
+
+        return mapFeaturesToHost(await analyzer.analyze(region.content, createRegionDocument(document, region)), region);
+    }
+
+    private createMarkupFeature(
+        name: string,
+        bcdKey: string,
+        offset: number,
+        length: number,
+        document: MockDocument,
+        lines: LineIndex
+    ): DetectedFeature[] {
+        const baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
+        if (!baselineStatus) {
+            return [];
+        }
+
+        return [createFeature({
+            name,
+            type: 'html',
+            bcdKey,
+            baselineStatus,
+            start: lines.positionAt(offset),
+            end: lines.positionAt(offset + length),
+            document
+        })];
+    }
+
+    private createCustomFeatures(
+        matches: CustomRuleMatch[],
+        offset: number,
+        length: number,
+        document: MockDocument,
+        lines: LineIndex
+    ): DetectedFeature[] {
+        return matches.map(match => createFeature({
+            ...match,
+            type: 'html',
+            start: lines.positionAt(offset),
+            end: lines.positionAt(offset + length),
+            document
+        }));
+    }
+}
+
+export class CLIManifestAnalyzer {
+    // Members every browser that installs web apps supports, so reporting them only adds noise
+    private static readonly COMMON_MEMBERS = ['name', 'short_name', 'description', 'icons', 'start_url'];
+
+    constructor(private compatibilityService: CompatibilityDataService) {}
+
+    async analyze(content: string, document: MockDocument): Promise<DetectedFeature[]> {
+        const features: DetectedFeature[] = [];
+
+        try {
+            const manifest = parseExpression(content);
+
+            // A manifest.json with manifest_version belongs to a browser extension
+            if (t.isObjectExpression(manifest) && !this.getMember(manifest, 'manifest_version')) {
+                features.push(...this.analyzeMembers(manifest, [], document));
+            }
+        } catch (error) {
+            // Ignore parsing errors for CLI
+        }
+
+        return features;
+    }
+
+    /**
+     * Report the members of a manifest object and the keyword values BCD tracks,
+     * e.g. "standalone" for display. The entries of an array, such as the
+     * handlers in protocol_handlers, belong to the array's member.
+     */
+    private analyzeMembers(node: t.Node, memberPath: string[], document: MockDocument): DetectedFeature[] {
+        const features: DetectedFeature[] = [];
+
+        if (t.isArrayExpression(node)) {
+            for (const element of node.elements) {
+                if (element) {
+                    features.push(...this.analyzeMembers(element, memberPath, document));
+                }
+            }
+        } else if (t.isStringLiteral(node) && memberPath.length > 0) {
+            const bcdKey = this.compatibilityService.mapManifestMemberToBCD([...memberPath, node.value]);
+            if (bcdKey) {
+                features.push(...this.createManifestFeature(`manifest.${memberPath.join('.')}: ${node.value}`, bcdKey, node, document));
+            }
+        } else if (t.isObjectExpression(node)) {
+            for (const property of node.properties) {
+                if (!t.isObjectProperty(property) || !t.isStringLiteral(property.key)) {
+                    continue;
+                }
+
+                const path = [...memberPath, property.key.value];
+                const bcdKey = this.compatibilityService.mapManifestMemberToBCD(path);
+                if (!bcdKey) {
+                    continue;
+                }
+
+                if (memberPath.length > 0 || !CLIManifestAnalyzer.COMMON_MEMBERS.includes(property.key.value)) {
+                    features.push(...this.createManifestFeature(`manifest.${path.join('.')}`, bcdKey, property.key, document));
+                }
+                features.push(...this.analyzeMembers(property.value, path, document));
+            }
+        }
+
+        return features;
+    }
+
+    private getMember(node: t.ObjectExpression, name: string): t.ObjectProperty | undefined {
+        return node.properties.find((property): property is t.ObjectProperty =>
+            t.isObjectProperty(property) && t.isStringLiteral(property.key) && property.key.value === name
+        );
+    }
+
+    private createManifestFeature(name: string, bcdKey: string, node: t.Node, document: MockDocument): DetectedFeature[] {
+        const baselineStatus = this.compatibilityService.getBCDStatus(bcdKey);
+        if (!baselineStatus || !node.loc) {
+            return [];
+        }
+
+        return [createFeature({
+            name,
+            type: 'html',
+            bcdKey,
+            baselineStatus,
+            start: { line: node.loc.start.line - 1, character: node.loc.start.column },
+            end: { line: node.loc.end.line - 1, character: node.loc.end.column },
+            document
+        })];
+    }
+}
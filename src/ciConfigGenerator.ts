@@ -539,8 +539,13 @@ steps:
                 "**/*.mjs",
                 "**/*.html",
                 "**/*.htm",
+                "**/*.svg",
                 "**/*.vue",
-                "**/*.svelte"
+                "**/*.svelte",
+                "**/*.md",
+                "**/*.mdx",
+                "**/*.webmanifest",
+                "**/manifest.json"
             ],
             enabledAnalyzers: this.config.enabledAnalyzers,
             maxFileSize: this.config.maxFileSize,
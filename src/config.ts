@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { CustomRule } from './customRules';
 
 export interface CLIAnalysisOptions {
     path?: string;
@@ -12,6 +13,7 @@ export interface CLIAnalysisOptions {
     exclude?: string;
     silent?: boolean;
     verbose?: boolean;
+    bundles?: boolean;
 }
 
 export interface CLIConfigData {
@@ -32,6 +34,13 @@ export interface CLIConfigData {
     maxFileSize: number;
     analysisTimeout: number;
     failOn: 'high' | 'medium' | 'low';
+    countGuardedFeatures: boolean;
+    countLowConfidenceFeatures: boolean;
+    analyzeBundles: boolean;
+    plugins: string[];
+    customRules: CustomRule[];
+    separateDocumentation: boolean;
+    documentationFailOn: 'high' | 'medium' | 'low' | 'none';
     outputFormat: 'json' | 'markdown' | 'junit';
     cicd: {
         github: {
@@ -85,6 +94,13 @@ export class CLIConfig implements CLIConfigData {
     maxFileSize: number = 10 * 1024 * 1024; // 10MB
     analysisTimeout: number = 5000; // 5 seconds
     failOn: 'high' | 'medium' | 'low' = 'high';
+    countGuardedFeatures: boolean = false; // Count usages behind feature detection towards risk
+    countLowConfidenceFeatures: boolean = false; // Count calls whose receiver type is unknown towards risk
+    analyzeBundles: boolean = false; // Analyze built JS/CSS and map findings through source maps
+    plugins: string[] = []; // Analyzer plugins, as npm package names or local paths
+    customRules: CustomRule[] = []; // Patterns that imply a web feature, e.g. design-system wrappers
+    separateDocumentation: boolean = false; // Report code blocks in Markdown apart from the code, under documentationFailOn
+    documentationFailOn: 'high' | 'medium' | 'low' | 'none' = 'none';
     outputFormat: 'json' | 'markdown' | 'junit' = 'json';
     cicd = {
         github: {
@@ -160,6 +176,10 @@ export class CLIConfig implements CLIConfigData {
             config.outputFormat = options.format as 'json' | 'markdown' | 'junit';
         }
 
+        if (options.bundles) {
+            config.analyzeBundles = true;
+        }
+
         if (options.include) {
             config.includePatterns = options.include.split(',').map(p => p.trim());
         }
@@ -185,6 +205,13 @@ export class CLIConfig implements CLIConfigData {
             maxFileSize: this.maxFileSize,
             analysisTimeout: this.analysisTimeout,
             failOn: this.failOn,
+            countGuardedFeatures: this.countGuardedFeatures,
+            countLowConfidenceFeatures: this.countLowConfidenceFeatures,
+            analyzeBundles: this.analyzeBundles,
+            plugins: this.plugins,
+            customRules: this.customRules,
+            separateDocumentation: this.separateDocumentation,
+            documentationFailOn: this.documentationFailOn,
             outputFormat: this.outputFormat,
             cicd: this.cicd
         };
@@ -219,6 +246,41 @@ export class CLIConfig implements CLIConfigData {
             errors.push('failOn must be one of: high, medium, low');
         }
 
+        // Validate guarded feature counting
+        if (typeof config.countGuardedFeatures !== 'boolean') {
+            errors.push('countGuardedFeatures must be true or false');
+        }
+
+        // Validate low-confidence feature counting
+        if (typeof config.countLowConfidenceFeatures !== 'boolean') {
+            errors.push('countLowConfidenceFeatures must be true or false');
+        }
+
+        // Validate bundle analysis
+        if (typeof config.analyzeBundles !== 'boolean') {
+            errors.push('analyzeBundles must be true or false');
+        }
+
+        // Validate documentation policy
+        if (typeof config.separateDocumentation !== 'boolean') {
+            errors.push('separateDocumentation must be true or false');
+        }
+        if (!['high', 'medium', 'low', 'none'].includes(config.documentationFailOn)) {
+            errors.push('documentationFailOn must be one of: high, medium, low, none');
+        }
+
+        // Validate plugins
+        if (!Array.isArray(config.plugins) || !config.plugins.every(plugin => typeof plugin === 'string')) {
+            errors.push('plugins must be a list of npm package names or file paths');
+        }
+
+        // Validate custom rules
+        if (!Array.isArray(config.customRules)) {
+            errors.push('customRules must be a list of rules');
+        } else {
+            config.customRules.forEach((rule, index) => errors.push(...CLIConfig.validateCustomRule(rule, index)));
+        }
+
         // Validate output format
         if (!['json', 'markdown', 'junit'].includes(config.outputFormat)) {
             errors.push('outputFormat must be one of: json, markdown, junit');
@@ -251,6 +313,43 @@ export class CLIConfig implements CLIConfigData {
         };
     }
 
+    static validateCustomRule(rule: CustomRule, index: number): string[] {
+        const errors: string[] = [];
+        const label = `customRules[${index}]`;
+
+        if (typeof rule !== 'object' || rule === null) {
+            return [`${label} must be an object`];
+        }
+
+        const patterns = (['css', 'javascript', 'html', 'regex'] as const).filter(kind => rule[kind] !== undefined);
+        if (patterns.length !== 1) {
+            errors.push(`${label} must have exactly one of: css, javascript, html, regex`);
+        }
+
+        if (rule.css !== undefined && typeof rule.css?.property !== 'string') {
+            errors.push(`${label}.css.property must be a string`);
+        }
+        if (rule.javascript !== undefined && typeof rule.javascript?.member !== 'string') {
+            errors.push(`${label}.javascript.member must be a string`);
+        }
+        if (rule.html !== undefined && typeof rule.html?.element !== 'string' && typeof rule.html?.attribute !== 'string') {
+            errors.push(`${label}.html must have an element or attribute`);
+        }
+        if (rule.regex !== undefined) {
+            try {
+                new RegExp(rule.regex);
+            } catch (error) {
+                errors.push(`${label}.regex is not a valid regular expression`);
+            }
+        }
+
+        if (typeof rule.feature !== 'string' && typeof rule.bcdKey !== 'string') {
+            errors.push(`${label} must name a web-features ID (feature) or a BCD key (bcdKey)`);
+        }
+
+        return errors;
+    }
+
     /**
      * Get default configuration
      */
@@ -278,7 +377,13 @@ export class CLIConfig implements CLIConfigData {
             baselineStatusMapping: this.baselineStatusMapping,
             enabledAnalyzers: this.enabledAnalyzers,
             maxFileSize: this.maxFileSize,
-            analysisTimeout: this.analysisTimeout
+            analysisTimeout: this.analysisTimeout,
+            countGuardedFeatures: this.countGuardedFeatures,
+            countLowConfidenceFeatures: this.countLowConfidenceFeatures,
+            separateDocumentation: this.separateDocumentation,
+            documentationFailOn: this.documentationFailOn,
+            plugins: this.plugins,
+            customRules: this.customRules
         };
 
         return JSON.stringify(teamConfig, null, 2);
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CLIAnalyzer } from './analyzer';
+import { CLIConfig } from './config';
+import { CustomRule, CustomRuleSet } from './customRules';
+import { CompatibilityDataService } from './services/compatibilityService';
+import { DetectedFeature } from './types';
+
+describe('CustomRuleSet', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-lens-rules-'));
+    const service = new CompatibilityDataService();
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        return service.initialize();
+    });
+    afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    async function analyze(rules: CustomRule[], fileName: string, content: string): Promise<DetectedFeature[]> {
+        const filePath = path.join(dir, fileName);
+        fs.writeFileSync(filePath, content);
+
+        const analyzer = new CLIAnalyzer(new CLIConfig().merge({ customRules: rules }));
+        await analyzer.initialize();
+        return analyzer.analyzeFile(filePath);
+    }
+
+    describe('matching', () => {
+        it('reports css, javascript and html rules at the matched position', async () => {
+            const rules: CustomRule[] = [
+                { css: { property: 'display', value: 'masonry' }, feature: 'popover' },
+                { javascript: { member: 'ds.transition.start' }, feature: 'view-transitions' },
+                { html: { element: 'ui-popover' }, feature: 'popover' }
+            ];
+
+            const css = await analyze(rules, 'a.css', '.a {\n    display: masonry;\n    display: inline-masonry;\n}\n');
+            const js = await analyze(rules, 'a.js', 'ds.transition.start();\n');
+            const html = await analyze(rules, 'a.html', '<p></p>\n<ui-popover></ui-popover>\n');
+
+            expect(css.filter(feature => feature.name === 'display: masonry')).toEqual([expect.objectContaining({ line: 1, column: 4 })]);
+            expect(js).toContainEqual(expect.objectContaining({ name: 'ds.transition.start', id: 'view-transitions', line: 0, column: 0 }));
+            expect(html).toContainEqual(expect.objectContaining({ name: 'ui-popover', id: 'popover', line: 1, column: 1 }));
+        });
+
+        it('reports every regex match with its position', async () => {
+            const rules: CustomRule[] = [{ regex: "from '@acme/dialog'", name: '@acme/dialog', feature: 'dialog' }];
+            const features = await analyze(rules, 'b.js', "import a from 'a';\nimport { Dialog } from '@acme/dialog';\n");
+
+            expect(features).toContainEqual(expect.objectContaining({ name: '@acme/dialog', line: 1, column: 18 }));
+        });
+    });
+
+    describe('validation', () => {
+        it('fails fast on rules without a complete pattern', () => {
+            expect(() => new CustomRuleSet([{ css: { value: 'masonry' } } as unknown as CustomRule], service))
+                .toThrow('customRules[0].css.property must be a string');
+        });
+
+        it('fails fast on invalid regular expressions', () => {
+            expect(() => new CustomRuleSet([{ regex: '(', feature: 'popover' }], service))
+                .toThrow('customRules[0].regex is not a valid regular expression');
+        });
+
+        it('fails fast on unknown features and BCD keys', () => {
+            expect(() => new CustomRuleSet([{ regex: 'a', feature: 'not-a-feature' }], service)).toThrow('unknown web feature');
+            expect(() => new CustomRuleSet([{ regex: 'a', bcdKey: 'api.NotAnInterface' }], service)).toThrow('unknown BCD key');
+        });
+
+        it('stops the analysis instead of dropping findings', () => {
+            const config = new CLIConfig().merge({ customRules: [{ css: { value: 'masonry' }, feature: 'popover' } as unknown as CustomRule] });
+            expect(() => new CLIAnalyzer(config)).toThrow('Invalid custom rules');
+        });
+    });
+});
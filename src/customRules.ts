@@ -0,0 +1,182 @@
+import { DetectedFeature, BaselineStatus } from './types';
+import { CompatibilityDataService } from './services/compatibilityService';
+import { LineIndex } from './lineIndex';
+import { CLIConfig } from './config';
+
+/**
+ * A detection rule from the customRules section of the configuration. A rule
+ * has one pattern, css, javascript, html or regex, and names the web feature
+ * (by web-features ID) or BCD key that code matching it relies on.
+ */
+export interface CustomRule {
+    /** Label in reports, defaults to the pattern */
+    name?: string;
+    /** A CSS property, optionally only with a value keyword, e.g. { "property": "display", "value": "masonry" } */
+    css?: { property: string; value?: string };
+    /** A JavaScript member path, e.g. "ds.popover.open", or a global name, e.g. "useViewTransition" */
+    javascript?: { member: string };
+    /** An HTML element, an attribute, or an attribute of one element, e.g. { "element": "ui-popover" } */
+    html?: { element?: string; attribute?: string };
+    /** A regular expression matched against the whole file */
+    regex?: string;
+    feature?: string;
+    bcdKey?: string;
+}
+
+/**
+ * A rule that matched, with the Baseline status of the feature it implies
+ */
+export interface CustomRuleMatch {
+    name: string;
+    bcdKey?: string;
+    baselineStatus: BaselineStatus;
+}
+
+/**
+ * Applies the configured custom rules next to the built-in detection
+ */
+export class CustomRuleSet {
+    constructor(private rules: CustomRule[], private compatibilityService: CompatibilityDataService) {
+        // analyze does not run validate-config, and a broken rule would otherwise fail every file
+        const errors = rules.flatMap((rule, index) => CLIConfig.validateCustomRule(rule, index));
+        if (errors.length > 0) {
+            throw new Error(`Invalid custom rules: ${errors.join('; ')}`);
+        }
+
+        for (const rule of rules) {
+            if (rule.bcdKey && !compatibilityService.getBCDData(rule.bcdKey)) {
+                throw new Error(`Custom rule ${CustomRuleSet.getName(rule)}: unknown BCD key "${rule.bcdKey}"`);
+            }
+            if (rule.feature && !compatibilityService.isWebFeature(rule.feature)) {
+                throw new Error(`Custom rule ${CustomRuleSet.getName(rule)}: unknown web feature "${rule.feature}"`);
+            }
+        }
+    }
+
+    /**
+     * Match a declaration against the css rules. A value must appear as a whole
+     * keyword, so "grid" does not match "inline-grid".
+     */
+    matchCSSDeclaration(property: string, value: string): CustomRuleMatch[] {
+        return this.matchRules(rule => {
+            if (!rule.css?.property || rule.css.property.toLowerCase() !== property.toLowerCase()) {
+                return false;
+            }
+            return !rule.css.value || new RegExp(`(^|[^\\w-])${escapeRegExp(rule.css.value)}($|[^\\w-])`, 'i').test(value);
+        });
+    }
+
+    /**
+     * Match the names along a member chain, e.g. ["ds", "popover", "open"]
+     */
+    matchJSMember(chainNames: string[]): CustomRuleMatch[] {
+        const member = chainNames.join('.');
+        return this.matchRules(rule => rule.javascript?.member === member);
+    }
+
+    /**
+     * Match an element against the html rules that name no attribute
+     */
+    matchHTMLElement(tagName: string): CustomRuleMatch[] {
+        return this.matchRules(rule =>
+            !!rule.html?.element && !rule.html.attribute && rule.html.element.toLowerCase() === tagName.toLowerCase()
+        );
+    }
+
+    /**
+     * Match an attribute against the html rules that name one, for any element
+     * unless the rule also names the element
+     */
+    matchHTMLAttribute(tagName: string, attribute: string): CustomRuleMatch[] {
+        return this.matchRules(rule =>
+            !!rule.html?.attribute && rule.html.attribute.toLowerCase() === attribute.toLowerCase() &&
+            (!rule.html.element || rule.html.element.toLowerCase() === tagName.toLowerCase())
+        );
+    }
+
+    /**
+     * Report every match of the regex rules in a file
+     */
+    matchContent(content: string, type: DetectedFeature['type'], filePath: string): DetectedFeature[] {
+        const features: DetectedFeature[] = [];
+        let lines: LineIndex | null = null;
+
+        for (const rule of this.rules) {
+            if (!rule.regex) {
+                continue;
+            }
+
+            const match = this.resolve(rule);
+            if (!match) {
+                continue;
+            }
+
+            for (const found of content.matchAll(new RegExp(rule.regex, 'g'))) {
+                if (found[0].length === 0) {
+                    continue;
+                }
+
+                lines = lines || new LineIndex(content);
+                const start = lines.positionAt(found.index!);
+                features.push({
+                    name: match.name,
+                    type,
+                    id: match.baselineStatus.featureId,
+                    line: start.line,
+                    column: start.character,
+                    baselineStatus: match.baselineStatus,
+                    bcdKey: match.bcdKey,
+                    context: found[0],
+                    range: { start, end: lines.positionAt(found.index! + found[0].length) },
+                    filePath
+                });
+            }
+        }
+
+        return features;
+    }
+
+    private matchRules(predicate: (rule: CustomRule) => boolean): CustomRuleMatch[] {
+        const matches: CustomRuleMatch[] = [];
+
+        for (const rule of this.rules) {
+            const match = predicate(rule) ? this.resolve(rule) : null;
+            if (match) {
+                matches.push(match);
+            }
+        }
+
+        return matches;
+    }
+
+    /**
+     * Get the status of the rule's web feature, or of its BCD key if it names none
+     */
+    private resolve(rule: CustomRule): CustomRuleMatch | null {
+        const baselineStatus = rule.feature
+            ? this.compatibilityService.getFeatureStatus(rule.feature)
+            : rule.bcdKey ? this.compatibilityService.getBCDStatus(rule.bcdKey) : null;
+
+        return baselineStatus ? { name: CustomRuleSet.getName(rule), bcdKey: rule.bcdKey, baselineStatus } : null;
+    }
+
+    private static getName(rule: CustomRule): string {
+        if (rule.name) {
+            return rule.name;
+        }
+        if (rule.css) {
+            return rule.css.value ? `${rule.css.property}: ${rule.css.value}` : rule.css.property;
+        }
+        if (rule.javascript) {
+            return rule.javascript.member;
+        }
+        if (rule.html) {
+            return rule.html.attribute ? `${rule.html.element || ''}[${rule.html.attribute}]` : rule.html.element || '';
+        }
+        return `/${rule.regex}/`;
+    }
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,44 @@
+import { DetectedFeature } from './types';
+import { SourcePosition } from './lineIndex';
+
+/**
+ * A block of one language embedded in a file of another, e.g. the
+ * `<script setup lang="ts">` block of a Vue component
+ */
+export interface EmbeddedRegion {
+    content: string;
+    languageId: string;
+    start: SourcePosition;
+    /** Set for example code in documentation, e.g. a fenced code block in Markdown */
+    documentation?: boolean;
+}
+
+/**
+ * Map a position within a region to the host file. Only the first line of the
+ * region is indented by the region's starting column.
+ */
+export function toHostPosition(position: SourcePosition, region: EmbeddedRegion): SourcePosition {
+    return {
+        line: region.start.line + position.line,
+        character: position.line === 0 ? region.start.character + position.character : position.character
+    };
+}
+
+/**
+ * Move features reported against a region's content to their position in the host file
+ */
+export function mapFeaturesToHost(features: DetectedFeature[], region: EmbeddedRegion): DetectedFeature[] {
+    return features.map(feature => {
+        const start = toHostPosition({ line: feature.line, character: feature.column }, region);
+
+        return {
+            ...feature,
+            line: start.line,
+            column: start.character,
+            range: feature.range && {
+                start: toHostPosition(feature.range.start, region),
+                end: toHostPosition(feature.range.end, region)
+            }
+        };
+    });
+}
@@ -0,0 +1,72 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parse } from '@babel/parser';
+import { CLIAnalyzer } from './analyzer';
+import { ExecutionContextDetector } from './executionContext';
+
+describe('ExecutionContextDetector', () => {
+    function detect(code: string) {
+        return ExecutionContextDetector.detect(parse(code, { sourceType: 'unambiguous' }));
+    }
+
+    describe('detect', () => {
+        it('recognises service worker and shared worker events', () => {
+            expect(detect("self.addEventListener('fetch', handle);")).toBe('service_worker');
+            expect(detect('onconnect = (event) => {};')).toBe('shared_worker');
+        });
+
+        it('recognises workers of unknown kind', () => {
+            expect(detect("importScripts('a.js');")).toBe('worker');
+            expect(detect('/// <reference lib="webworker" />\nexport {};')).toBe('worker');
+        });
+
+        it('does not take local functions for worker globals', () => {
+            expect(detect("function addEventListener() {}\naddEventListener('fetch', handle);")).toBe('window');
+        });
+    });
+
+    describe('worker targets', () => {
+        const host = path.resolve('/app/src/main.js');
+        const targets = ExecutionContextDetector.findWorkerTargets([
+            "new Worker(new URL('./worker.js', import.meta.url));",
+            "new SharedWorker('./shared.js');",
+            "navigator.serviceWorker.register('/sw.js');",
+            "new Worker('https://cdn.example.com/w.js');"
+        ].join('\n'), host);
+
+        it('finds scripts started as workers', () => {
+            expect(targets.map(target => target.context)).toEqual(['dedicated_worker', 'shared_worker', 'service_worker']);
+        });
+
+        it('matches relative targets by path and root-relative targets by suffix, ignoring the extension', () => {
+            expect(ExecutionContextDetector.matchWorkerTarget(targets, path.resolve('/app/src/worker.ts'))).toBe('dedicated_worker');
+            expect(ExecutionContextDetector.matchWorkerTarget(targets, path.resolve('/app/public/sw.js'))).toBe('service_worker');
+            expect(ExecutionContextDetector.matchWorkerTarget(targets, path.resolve('/app/other/worker.js'))).toBeUndefined();
+        });
+    });
+
+    describe('analysis', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-lens-workers-'));
+
+        beforeAll(() => {
+            jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        });
+        afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+        it('flags window-only APIs used in a worker', async () => {
+            fs.writeFileSync(path.join(dir, 'sw.js'), [
+                "self.addEventListener('fetch', (event) => {",
+                '  event.respondWith(caches.match(event.request));',
+                '});',
+                "document.title = 'x';"
+            ].join('\n'));
+
+            const result = await new CLIAnalyzer().analyzeProject(dir);
+            const document = result.features.find(feature => feature.bcdKey === 'api.Window.document');
+
+            expect(document).toMatchObject({ line: 3, column: 0, executionContext: 'service_worker' });
+            expect(document!.baselineStatus.status).toBe('limited_availability');
+        });
+    });
+});
@@ -0,0 +1,161 @@
+import * as path from 'path';
+import traverse from '@babel/traverse';
+import * as t from '@babel/types';
+import { File } from '@babel/types';
+import { ExecutionContext } from './types';
+
+// Interface of the global object in each context, e.g. self in a service worker
+export const GLOBAL_SCOPES: { [context in ExecutionContext]: string } = {
+    window: 'Window',
+    worker: 'WorkerGlobalScope',
+    dedicated_worker: 'DedicatedWorkerGlobalScope',
+    shared_worker: 'SharedWorkerGlobalScope',
+    service_worker: 'ServiceWorkerGlobalScope'
+};
+
+// How each context is named in reports
+export const CONTEXT_LABELS: { [context in ExecutionContext]: string } = {
+    window: 'window',
+    worker: 'worker',
+    dedicated_worker: 'dedicated worker',
+    shared_worker: 'shared worker',
+    service_worker: 'service worker'
+};
+
+// Events only a service worker or a shared worker receives
+const SERVICE_WORKER_EVENTS = [
+    'install', 'activate', 'fetch', 'push', 'sync', 'periodicsync', 'pushsubscriptionchange',
+    'notificationclick', 'notificationclose', 'backgroundfetchsuccess', 'backgroundfetchfail',
+    'backgroundfetchabort', 'backgroundfetchclick', 'canmakepayment', 'paymentrequest', 'cookiechange'
+];
+const SHARED_WORKER_EVENTS = ['connect'];
+
+// When a script shows signs of several contexts, the more specific one wins
+const SPECIFICITY: ExecutionContext[] = ['worker', 'dedicated_worker', 'shared_worker', 'service_worker'];
+
+/**
+ * A script that the project starts as a worker, e.g. `new Worker('./worker.js')`.
+ * A path without a directory is matched by suffix, since it is resolved against
+ * the page URL rather than the file that starts the worker.
+ */
+export interface WorkerTarget {
+    path: string;
+    suffix: boolean;
+    context: ExecutionContext;
+}
+
+/**
+ * Works out whether a script runs in a window or in a worker, from the script
+ * itself or from the code that starts it
+ */
+export class ExecutionContextDetector {
+
+    /**
+     * Get the context a script runs in. Service worker and shared worker events,
+     * e.g. `self.addEventListener('fetch', ...)`, decide it outright. Otherwise a
+     * script started as a worker gets that worker's context, and importScripts(),
+     * a global onmessage handler or `/// <reference lib="webworker" />` mark a
+     * worker of unknown kind.
+     */
+    static detect(ast: File, startedAs?: ExecutionContext): ExecutionContext {
+        let context: ExecutionContext | null = null;
+        const found = (detected: ExecutionContext) => {
+            if (!context || SPECIFICITY.indexOf(detected) > SPECIFICITY.indexOf(context)) {
+                context = detected;
+            }
+        };
+
+        if (ast.comments?.some(comment => /^\/\s*<reference\s+lib=["']webworker[\w.]*["']/.test(comment.value))) {
+            found('worker');
+        }
+
+        traverse(ast, {
+            CallExpression: path => {
+                const callee = this.getGlobalName(path.node.callee, name => !path.scope.hasBinding(name, true));
+                const [event] = path.node.arguments;
+
+                if (callee === 'addEventListener' && t.isStringLiteral(event)) {
+                    if (SERVICE_WORKER_EVENTS.includes(event.value)) found('service_worker');
+                    if (SHARED_WORKER_EVENTS.includes(event.value)) found('shared_worker');
+                }
+                if (callee === 'skipWaiting') found('service_worker');
+                if (callee === 'importScripts') found('worker');
+            },
+            AssignmentExpression: path => {
+                const handler = this.getGlobalName(path.node.left, name => !path.scope.hasBinding(name, true));
+                if (handler && SERVICE_WORKER_EVENTS.includes(handler.replace(/^on/, ''))) found('service_worker');
+                if (handler && SHARED_WORKER_EVENTS.includes(handler.replace(/^on/, ''))) found('shared_worker');
+                if (handler === 'onmessage') found('worker');
+            }
+        });
+
+        const detected: ExecutionContext | null = context;
+        if (detected && detected !== 'worker') {
+            return detected;
+        }
+        return startedAs || detected || 'window';
+    }
+
+    /**
+     * Find the scripts a file starts as workers: `new Worker(url)`,
+     * `new SharedWorker(url)` and `navigator.serviceWorker.register(url)`, with
+     * url a string or `new URL(string, import.meta.url)`
+     */
+    static findWorkerTargets(content: string, filePath: string): WorkerTarget[] {
+        const targets: WorkerTarget[] = [];
+        const url = String.raw`\(\s*(?:new\s+URL\s*\(\s*)?(['"\x60])([^'"\x60$]+)\1`;
+        const patterns: [RegExp, ExecutionContext][] = [
+            [new RegExp(String.raw`\bnew\s+Worker\s*` + url, 'g'), 'dedicated_worker'],
+            [new RegExp(String.raw`\bnew\s+SharedWorker\s*` + url, 'g'), 'shared_worker'],
+            [new RegExp(String.raw`\bserviceWorker\s*\.\s*register\s*` + url, 'g'), 'service_worker']
+        ];
+
+        for (const [pattern, context] of patterns) {
+            for (const match of content.matchAll(pattern)) {
+                const specifier = match[2].replace(/[?#].*$/, '');
+                if (/^[a-z][a-z0-9+.-]*:/i.test(specifier) || specifier === '') {
+                    continue;
+                }
+
+                targets.push(specifier.startsWith('.')
+                    ? { path: this.stripExtension(path.resolve(path.dirname(filePath), specifier)), suffix: false, context }
+                    : { path: this.stripExtension(specifier.replace(/^\/+/, '')), suffix: true, context });
+            }
+        }
+
+        return targets;
+    }
+
+    /**
+     * Get the context of a file started as a worker. The extension is ignored,
+     * so `new Worker('./worker.js')` matches a worker.ts source file.
+     */
+    static matchWorkerTarget(targets: WorkerTarget[], filePath: string): ExecutionContext | undefined {
+        const candidate = this.stripExtension(path.resolve(filePath));
+        const normalized = candidate.split(path.sep).join('/');
+
+        return targets.find(target => target.suffix
+            ? normalized === target.path || normalized.endsWith(`/${target.path}`)
+            : candidate === target.path
+        )?.context;
+    }
+
+    private static stripExtension(filePath: string): string {
+        return filePath.replace(/\.[cm]?[jt]sx?$/, '');
+    }
+
+    /**
+     * Get the name of a global referenced directly or through self, e.g.
+     * "addEventListener" for both `addEventListener` and `self.addEventListener`
+     */
+    private static getGlobalName(node: t.Node, isGlobal: (name: string) => boolean): string | null {
+        if (t.isIdentifier(node)) {
+            return isGlobal(node.name) ? node.name : null;
+        }
+        if (t.isMemberExpression(node) && !node.computed && t.isIdentifier(node.property) &&
+            t.isIdentifier(node.object) && ['self', 'globalThis'].includes(node.object.name) && isGlobal(node.object.name)) {
+            return node.property.name;
+        }
+        return null;
+    }
+}
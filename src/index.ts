@@ -28,6 +28,7 @@ program
     .option('--threshold <threshold>', 'Support threshold percentage', '90')
     .option('--include <patterns>', 'File patterns to include (comma-separated)')
     .option('--exclude <patterns>', 'File patterns to exclude (comma-separated)')
+    .option('--bundles', 'Analyze built JS/CSS bundles and map findings to sources via source maps')
     .option('--changed-only', 'Only analyze files changed in current branch/PR')
     .option('--base-branch <branch>', 'Base branch for changed files comparison', 'main')
     .option('--silent', 'Suppress console output except errors')
@@ -281,6 +282,11 @@ program
                 console.log('=====================================');
                 console.log(`Support Threshold: ${config.supportThreshold}%`);
                 console.log(`Fail On: ${config.failOn}`);
+                console.log(`Count Guarded Features: ${config.countGuardedFeatures ? 'yes' : 'no'}`);
+                console.log(`Count Low-Confidence Features: ${config.countLowConfidenceFeatures ? 'yes' : 'no'}`);
+                console.log(`Analyze Bundles: ${config.analyzeBundles ? 'yes' : 'no'}`);
+                console.log(`Documentation Code Blocks: ${config.separateDocumentation ? `separate (fail on: ${config.documentationFailOn})` : 'counted with code'}`);
+                console.log(`Plugins: ${config.plugins.length > 0 ? config.plugins.join(', ') : 'none'}`);
                 console.log(`Output Format: ${config.outputFormat}`);
                 console.log(`Max File Size: ${(config.maxFileSize / 1024 / 1024).toFixed(1)}MB`);
                 console.log(`Analysis Timeout: ${config.analysisTimeout}ms`);
@@ -0,0 +1,246 @@
+import { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { CompatibilityDataService } from './services/compatibilityService';
+
+// Return types of well-known global calls, e.g. Array.from(...) is an Array
+const CALL_RETURN_TYPES: { [callee: string]: string } = {
+    'Array.from': 'Array',
+    'Array.of': 'Array',
+    'Object.keys': 'Array',
+    'Object.values': 'Array',
+    'Object.entries': 'Array',
+    'Promise.resolve': 'Promise',
+    'Promise.reject': 'Promise',
+    'Promise.all': 'Promise',
+    'Promise.allSettled': 'Promise',
+    'Promise.any': 'Promise',
+    'Promise.race': 'Promise',
+    'JSON.stringify': 'String',
+    'String': 'String',
+    'fetch': 'Promise'
+};
+
+// Return types of methods on a known receiver type, e.g. str.split(...) is an Array
+const METHOD_RETURN_TYPES: { [type: string]: { [method: string]: string } } = {
+    Array: {
+        map: 'Array', filter: 'Array', slice: 'Array', concat: 'Array', flat: 'Array', flatMap: 'Array',
+        sort: 'Array', reverse: 'Array', toSorted: 'Array', toReversed: 'Array', toSpliced: 'Array',
+        with: 'Array', join: 'String'
+    },
+    String: {
+        split: 'Array', trim: 'String', trimStart: 'String', trimEnd: 'String', slice: 'String',
+        substring: 'String', toLowerCase: 'String', toUpperCase: 'String', padStart: 'String',
+        padEnd: 'String', replace: 'String', replaceAll: 'String', repeat: 'String', concat: 'String'
+    },
+    Promise: { then: 'Promise', catch: 'Promise', finally: 'Promise' }
+};
+
+// TypeScript type names that stand for a built-in
+const TYPE_ALIASES: { [name: string]: string } = {
+    ReadonlyArray: 'Array',
+    ReadonlyMap: 'Map',
+    ReadonlySet: 'Set',
+    PromiseLike: 'Promise'
+};
+
+const MAX_DEPTH = 5;
+
+/**
+ * Lightweight type inference for the receivers of member expressions.
+ * Literals, `new X()`, TypeScript annotations, Web API globals such as
+ * `navigator`, `this` in classes extending e.g. HTMLElement and a few
+ * well-known return types are understood; anything else is unknown and
+ * inferred as null.
+ */
+export class JSTypeInference {
+    constructor(private compatibilityService: CompatibilityDataService) {}
+
+    /**
+     * Infer the type of an expression, e.g. "Array" for `[1, 2]`. Globals are
+     * resolved in the given global scope, e.g. ServiceWorkerGlobalScope.
+     */
+    inferType(path: NodePath, depth: number = 0, globalScope: string = 'Window'): string | null {
+        const node = path.node;
+        if (depth > MAX_DEPTH) {
+            return null;
+        }
+
+        switch (node.type) {
+            case 'ArrayExpression':
+                return 'Array';
+            case 'StringLiteral':
+            case 'TemplateLiteral':
+                return 'String';
+            case 'NumericLiteral':
+                return 'Number';
+            case 'BigIntLiteral':
+                return 'BigInt';
+            case 'RegExpLiteral':
+                return 'RegExp';
+            case 'NewExpression':
+                return this.getCalleeName(node.callee);
+            case 'ThisExpression':
+                return this.inferThisType(path, depth);
+            case 'TSAsExpression':
+            case 'TSSatisfiesExpression':
+                return this.typeFromAnnotation(node.typeAnnotation);
+            case 'TSNonNullExpression':
+            case 'ParenthesizedExpression':
+                return this.inferType(path.get('expression') as NodePath, depth + 1, globalScope);
+            case 'CallExpression':
+            case 'OptionalCallExpression':
+                return this.inferCallType(path as NodePath<t.CallExpression>, depth, globalScope);
+            case 'Identifier':
+                return this.inferBindingType(path as NodePath<t.Identifier>, depth, globalScope);
+            case 'MemberExpression':
+            case 'OptionalMemberExpression':
+                return this.inferMemberType(path as NodePath<t.MemberExpression>, depth, globalScope);
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Get the type a TypeScript annotation names, e.g. "Array" for `string[]`
+     */
+    typeFromAnnotation(node: t.Node | null | undefined): string | null {
+        if (!node) {
+            return null;
+        }
+
+        switch (node.type) {
+            case 'TSTypeAnnotation':
+                return this.typeFromAnnotation(node.typeAnnotation);
+            case 'TSArrayType':
+            case 'TSTupleType':
+                return 'Array';
+            case 'TSStringKeyword':
+                return 'String';
+            case 'TSNumberKeyword':
+                return 'Number';
+            case 'TSBigIntKeyword':
+                return 'BigInt';
+            case 'TSTypeOperator':
+                return this.typeFromAnnotation(node.typeAnnotation);
+            case 'TSTypeReference': {
+                const name = this.getCalleeName(node.typeName);
+                return name ? TYPE_ALIASES[name] || name : null;
+            }
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Get the dotted name of a callee or type name, e.g. "Intl.Segmenter"
+     */
+    getCalleeName(node: t.Node): string | null {
+        if (t.isIdentifier(node)) {
+            return node.name;
+        }
+        if (t.isMemberExpression(node) && !node.computed && t.isIdentifier(node.property)) {
+            const objectName = this.getCalleeName(node.object);
+            return objectName ? `${objectName}.${node.property.name}` : null;
+        }
+        if (t.isTSQualifiedName(node)) {
+            const left = this.getCalleeName(node.left);
+            return left ? `${left}.${node.right.name}` : null;
+        }
+        return null;
+    }
+
+    private inferCallType(path: NodePath<t.CallExpression>, depth: number, globalScope: string): string | null {
+        const callee = path.node.callee;
+
+        const calleeName = this.getCalleeName(callee);
+        if (calleeName && CALL_RETURN_TYPES[calleeName] && !path.scope.hasBinding(calleeName.split('.')[0], true)) {
+            return CALL_RETURN_TYPES[calleeName];
+        }
+
+        if ((t.isMemberExpression(callee) || t.isOptionalMemberExpression(callee)) &&
+            !callee.computed && t.isIdentifier(callee.property)) {
+            const receiverType = this.inferType(path.get('callee.object') as NodePath, depth + 1, globalScope);
+            if (!receiverType) {
+                return null;
+            }
+            return METHOD_RETURN_TYPES[receiverType]?.[callee.property.name] ||
+                this.compatibilityService.getMemberInterface(receiverType, callee.property.name);
+        }
+
+        return null;
+    }
+
+    private inferMemberType(path: NodePath<t.MemberExpression>, depth: number, globalScope: string): string | null {
+        const { property, computed } = path.node;
+        if (computed || !t.isIdentifier(property)) {
+            return null;
+        }
+
+        const receiverType = this.inferType(path.get('object') as NodePath, depth + 1, globalScope);
+        return receiverType ? this.compatibilityService.getMemberInterface(receiverType, property.name) : null;
+    }
+
+    /**
+     * Infer `this` in the instance methods and fields of a class that extends a
+     * global, e.g. HTMLElement for a custom element, directly or through local
+     * classes. Elsewhere `this` is unknown.
+     */
+    private inferThisType(path: NodePath, depth: number): string | null {
+        const owner = path.findParent(parent =>
+            (parent.isFunction() && !parent.isArrowFunctionExpression()) ||
+            parent.isClassProperty() || parent.isClassPrivateProperty()
+        );
+        if (!owner || !(owner.isClassMethod() || owner.isClassPrivateMethod() || owner.isClassProperty() || owner.isClassPrivateProperty()) ||
+            owner.node.static) {
+            return null;
+        }
+
+        let classPath = owner.parentPath.parentPath as NodePath<t.Class>;
+        for (let level = depth; level <= MAX_DEPTH; level++) {
+            const superClass = classPath.node.superClass;
+            if (!t.isIdentifier(superClass)) {
+                return null;
+            }
+
+            const binding = classPath.scope.getBinding(superClass.name);
+            if (!binding) {
+                return superClass.name;
+            }
+            if (!binding.path.isClassDeclaration()) {
+                return null;
+            }
+            classPath = binding.path;
+        }
+
+        return null;
+    }
+
+    private inferBindingType(path: NodePath<t.Identifier>, depth: number, globalScope: string): string | null {
+        const binding = path.scope.getBinding(path.node.name);
+        if (!binding) {
+            return this.compatibilityService.getGlobalInterface(path.node.name, globalScope);
+        }
+
+        const declaration = binding.path;
+
+        // Function parameters carry their annotation on the identifier itself
+        if (declaration.isIdentifier()) {
+            return this.typeFromAnnotation(declaration.node.typeAnnotation);
+        }
+
+        if (declaration.isVariableDeclarator() && t.isIdentifier(declaration.node.id)) {
+            const annotated = this.typeFromAnnotation(declaration.node.id.typeAnnotation);
+            if (annotated) {
+                return annotated;
+            }
+
+            // A reassigned let or var may no longer hold its initial value
+            const init = declaration.get('init');
+            if (binding.constant && init.node) {
+                return this.inferType(init as NodePath, depth + 1, globalScope);
+            }
+        }
+
+        return null;
+    }
+}
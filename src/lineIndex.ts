@@ -0,0 +1,40 @@
+export interface SourcePosition {
+    line: number;
+    character: number;
+}
+
+/**
+ * Maps character offsets within a piece of source text to 0-based line and
+ * character positions, the same convention used for DetectedFeature ranges.
+ */
+export class LineIndex {
+    private lineStarts: number[] = [0];
+
+    constructor(content: string) {
+        for (let i = 0; i < content.length; i++) {
+            if (content.charCodeAt(i) === 10) {
+                this.lineStarts.push(i + 1);
+            }
+        }
+    }
+
+    /**
+     * Get the position of a character offset
+     */
+    positionAt(offset: number): SourcePosition {
+        let low = 0;
+        let high = this.lineStarts.length - 1;
+
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (this.lineStarts[mid] <= offset) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+
+        return { line: low, character: offset - this.lineStarts[low] };
+    }
+}
+
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CLIAnalyzer, CLIAnalysisResult } from './analyzer';
+import { CLIConfig, CLIConfigData } from './config';
+import { MarkdownSplitter } from './markdownSplitter';
+import { DetectedFeature } from './types';
+
+describe('MarkdownSplitter', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-lens-docs-'));
+    const markdown = [
+        '# Title',
+        '',
+        '```css',
+        '.a { text-wrap: balance; }',
+        '```',
+        '',
+        'Inline `structuredClone(a)` code.',
+        '',
+        '```js',
+        'const copy = structuredClone(data);',
+        '```'
+    ].join('\n');
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        fs.writeFileSync(path.join(dir, 'README.md'), markdown);
+    });
+    afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    async function analyzeProject(options: Partial<CLIConfigData> = {}): Promise<CLIAnalysisResult> {
+        return new CLIAnalyzer(new CLIConfig().merge(options)).analyzeProject(dir);
+    }
+
+    function findKey(features: DetectedFeature[], bcdKey: string): DetectedFeature | undefined {
+        return features.find(feature => feature.bcdKey === bcdKey);
+    }
+
+    it('extracts fenced code blocks by their info string', () => {
+        expect(MarkdownSplitter.split(markdown, false).map(region => [region.languageId, region.start.line])).toEqual([
+            ['css', 3],
+            ['javascript', 9]
+        ]);
+    });
+
+    it('reports JSX in MDX at its position in the MDX file', async () => {
+        const filePath = path.join(dir, 'demo.mdx');
+        fs.writeFileSync(filePath, "import { Demo } from './demo';\n\n# Demo\n\n<dialog open>Hi</dialog>\n");
+
+        const analyzer = new CLIAnalyzer();
+        await analyzer.initialize();
+        const features = await analyzer.analyzeFile(filePath);
+        fs.rmSync(filePath);
+
+        expect(findKey(features, 'html.elements.dialog')).toMatchObject({ line: 4, column: 1 });
+    });
+
+    it('reports code block features at their position in the Markdown file, marked as documentation', async () => {
+        const result = await analyzeProject();
+
+        expect(findKey(result.features, 'css.properties.text-wrap')).toMatchObject({ line: 3, column: 5, documentation: true });
+        expect(result.features.filter(feature => feature.bcdKey === 'api.structuredClone')).toEqual([
+            expect.objectContaining({ line: 9, column: 13, documentation: true })
+        ]);
+    });
+
+    it('holds code blocks to their own policy when separateDocumentation is enabled', async () => {
+        const counted = await analyzeProject();
+        const separate = await analyzeProject({ separateDocumentation: true, documentationFailOn: 'none' });
+        const analyzer = new CLIAnalyzer();
+
+        expect(counted.riskDistribution.medium).toBeGreaterThan(0);
+        expect(separate.riskDistribution).toEqual({ low: 0, medium: 0, high: 0 });
+        expect(separate.documentationDistribution).toEqual(counted.riskDistribution);
+        expect(analyzer.shouldFailBuild(separate, 'medium')).toBe(false);
+    });
+});
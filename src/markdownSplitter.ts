@@ -0,0 +1,152 @@
+import { parseExpression } from '@babel/parser';
+import { EmbeddedRegion } from './embeddedRegion';
+
+// Language IDs for the info string of fenced code blocks, e.g. ```tsx
+const FENCE_LANGUAGES: { [lang: string]: string } = {
+    css: 'css',
+    scss: 'scss',
+    sass: 'sass',
+    less: 'less',
+    js: 'javascript',
+    javascript: 'javascript',
+    mjs: 'javascript',
+    jsx: 'javascriptreact',
+    ts: 'typescript',
+    typescript: 'typescript',
+    tsx: 'typescriptreact',
+    html: 'html',
+    svg: 'svg'
+};
+
+// How many blank-line boundaries a JSX block may span before we give up on it
+const MAX_JSX_BLOCK_PARAGRAPHS = 50;
+
+/**
+ * Splits Markdown and MDX documents into the code they contain: fenced code
+ * blocks, and in MDX also the import/export statements and JSX blocks
+ */
+export class MarkdownSplitter {
+
+    /**
+     * Get the fenced code blocks in a language we can analyze, marked as
+     * documentation, and for MDX the ESM and block-level JSX of the page itself.
+     * JSX inline in a paragraph is not picked up.
+     */
+    static split(content: string, isMDX: boolean): EmbeddedRegion[] {
+        const lines = content.split('\n');
+        const inFence: boolean[] = new Array(lines.length).fill(false);
+        const regions: EmbeddedRegion[] = [];
+
+        for (let i = 0; i < lines.length; i++) {
+            const open = /^ {0,3}(`{3,}|~{3,})(.*)$/.exec(lines[i]);
+            if (!open || (open[1][0] === '`' && open[2].includes('`'))) {
+                continue;
+            }
+
+            const fence = open[1];
+            let end = i + 1;
+            while (end < lines.length && !this.isClosingFence(lines[end], fence)) {
+                end++;
+            }
+
+            const lang = open[2].trim().split(/[\s{]/)[0].toLowerCase();
+            const languageId = FENCE_LANGUAGES[lang];
+            if (languageId) {
+                regions.push({
+                    content: lines.slice(i + 1, end).join('\n'),
+                    languageId,
+                    start: { line: i + 1, character: 0 },
+                    documentation: true
+                });
+            }
+
+            inFence.fill(true, i, Math.min(end + 1, lines.length));
+            i = end;
+        }
+
+        if (isMDX) {
+            regions.push(...this.getMDXRegions(lines, inFence));
+        }
+
+        return regions;
+    }
+
+    private static isClosingFence(line: string, fence: string): boolean {
+        const close = /^ {0,3}(`{3,}|~{3,})\s*$/.exec(line);
+        return !!close && close[1][0] === fence[0] && close[1].length >= fence.length;
+    }
+
+    /**
+     * Find import/export statements, which run to the next blank line, and JSX
+     * blocks, which start a line and run until their tags are closed. Fenced
+     * code inside a JSX block is blanked, since it is analyzed on its own.
+     */
+    private static getMDXRegions(lines: string[], inFence: boolean[]): EmbeddedRegion[] {
+        const regions: EmbeddedRegion[] = [];
+        const isBlank = (i: number) => lines[i].trim() === '';
+        const lineText = (i: number) => inFence[i] ? lines[i].replace(/[^\r]/g, ' ') : lines[i];
+
+        for (let i = 0; i < lines.length; i++) {
+            if (inFence[i]) {
+                continue;
+            }
+
+            if (/^(import|export)\b/.test(lines[i])) {
+                let end = i;
+                while (end + 1 < lines.length && !isBlank(end + 1) && !inFence[end + 1]) {
+                    end++;
+                }
+
+                regions.push({
+                    content: lines.slice(i, end + 1).join('\n'),
+                    languageId: 'javascriptreact',
+                    start: { line: i, character: 0 }
+                });
+                i = end;
+                continue;
+            }
+
+            if (!/^ {0,3}<([A-Za-z]|>)/.test(lines[i])) {
+                continue;
+            }
+
+            // Try each blank line in turn as the end of the block. Sibling elements
+            // are wrapped in a fragment on lines of their own, so positions stay put.
+            let end = i;
+            let block: string | null = null;
+            for (let paragraphs = 0; paragraphs < MAX_JSX_BLOCK_PARAGRAPHS && end < lines.length; paragraphs++) {
+                while (end + 1 < lines.length && (!isBlank(end + 1) || inFence[end + 1])) {
+                    end++;
+                }
+
+                const candidate = `<>\n${lines.slice(i, end + 1).map((_, k) => lineText(i + k)).join('\n')}\n</>`;
+                if (this.isJSX(candidate)) {
+                    block = candidate;
+                    break;
+                }
+
+                end++;
+            }
+
+            if (block) {
+                regions.push({
+                    content: block,
+                    languageId: 'javascriptreact',
+                    start: { line: i - 1, character: 0 }
+                });
+                i = end;
+            }
+        }
+
+        return regions;
+    }
+
+    private static isJSX(text: string): boolean {
+        try {
+            parseExpression(text, { plugins: ['jsx'] });
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,20 @@
+// Type declarations for stylesheet parsers that do not ship their own
+
+declare module 'postcss-less' {
+    import { Parser, Root, Stringifier } from 'postcss';
+
+    export const parse: Parser<Root>;
+    export const stringify: Stringifier;
+}
+
+declare module 'sass-parser' {
+    import { Root } from 'postcss';
+
+    interface SassSyntax {
+        parse(css: string, options?: { from?: string }): Root;
+    }
+
+    export const sass: SassSyntax;
+    export const scss: SassSyntax;
+    export const css: SassSyntax;
+}
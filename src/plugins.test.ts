@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CLIAnalyzer } from './analyzer';
+import { CLIConfig } from './config';
+import { PluginLoader, PluginContext } from './plugins';
+import { CompatibilityDataService } from './services/compatibilityService';
+
+describe('PluginLoader', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-lens-plugins-'));
+    const context: PluginContext = { compatibilityService: new CompatibilityDataService() };
+
+    function writePlugin(fileName: string, source: string): string {
+        const filePath = path.join(dir, fileName);
+        fs.writeFileSync(filePath, source);
+        return filePath;
+    }
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+    afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    it('loads an analyzer, a list of analyzers, a factory or an ES module default export', () => {
+        const plugins = PluginLoader.load([
+            writePlugin('object.js', "module.exports = { name: 'a', extensions: ['.a'], analyze: () => [] };"),
+            writePlugin('list.js', "module.exports = [{ name: 'b', extensions: ['.b'], analyze: () => [] }];"),
+            writePlugin('factory.js', "module.exports = ({ compatibilityService }) => ({ name: 'c', extensions: ['.c'], analyze: () => [] });"),
+            writePlugin('esm.js', "exports.__esModule = true; exports.default = { name: 'd', extensions: ['.d'], analyze: () => [] };")
+        ], context);
+
+        expect(plugins.map(plugin => plugin.name)).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('rejects exports that are not analyzers', () => {
+        const notAnalyzer = writePlugin('string.js', "module.exports = 'analyzer';");
+        const badExtensions = writePlugin('extensions.js', "module.exports = { name: 'e', extensions: ['e'], analyze: () => [] };");
+        const noAnalyze = writePlugin('analyze.js', "module.exports = { name: 'f', extensions: ['.f'] };");
+
+        expect(() => PluginLoader.load([notAnalyzer], context)).toThrow('does not export an analyzer');
+        expect(() => PluginLoader.load([badExtensions], context)).toThrow('must list its file extensions');
+        expect(() => PluginLoader.load([noAnalyze], context)).toThrow('must have an analyze(content, document) method');
+        expect(() => PluginLoader.load([path.join(dir, 'missing.js')], context)).toThrow('Failed to load plugin');
+    });
+
+    it('routes files with a plugin extension to the plugin', async () => {
+        const plugin = writePlugin('astro.js', [
+            'module.exports = ({ compatibilityService }) => ({',
+            "    name: 'astro',",
+            "    extensions: ['.astro'],",
+            '    analyze: (content, document) => [{',
+            "        name: 'structuredClone', type: 'javascript', line: 0, column: content.indexOf('structuredClone'),",
+            "        baselineStatus: compatibilityService.getBCDStatus('api.structuredClone'), filePath: document.fileName",
+            '    }]',
+            '});'
+        ].join('\n'));
+        const filePath = path.join(dir, 'page.astro');
+        fs.writeFileSync(filePath, '---\nstructuredClone(a);\n---\n');
+
+        const analyzer = new CLIAnalyzer(new CLIConfig().merge({ plugins: [plugin] }));
+        await analyzer.initialize();
+
+        expect(await analyzer.analyzeFile(filePath)).toEqual([
+            expect.objectContaining({ name: 'structuredClone', column: 4, filePath, baselineStatus: expect.objectContaining({ featureId: 'structured-clone' }) })
+        ]);
+    });
+});
@@ -0,0 +1,87 @@
+import * as path from 'path';
+import { DetectedFeature } from './types';
+import { MockDocument } from './analyzers';
+import { CompatibilityDataService } from './services/compatibilityService';
+
+/**
+ * An analyzer contributed by a plugin for file types the CLI does not handle,
+ * or to replace a built-in analyzer for some extensions
+ */
+export interface AnalyzerPlugin {
+    name: string;
+    /** File extensions the analyzer handles, including the dot, e.g. ".astro" */
+    extensions: string[];
+    /** Language ID given to documents of these files, defaults to the extension without the dot */
+    languageId?: string;
+    analyze(content: string, document: MockDocument): DetectedFeature[] | Promise<DetectedFeature[]>;
+}
+
+/**
+ * What a plugin module gets when it exports a factory function
+ */
+export interface PluginContext {
+    compatibilityService: CompatibilityDataService;
+}
+
+export type AnalyzerPluginFactory = (context: PluginContext) => AnalyzerPlugin | AnalyzerPlugin[];
+
+/**
+ * Loads analyzer plugins listed in the configuration. A plugin module is an npm
+ * package name or a path relative to the working directory, and exports (as
+ * default or module.exports) an analyzer, a list of analyzers, or a factory
+ * returning either.
+ */
+export class PluginLoader {
+    static load(specifiers: string[], context: PluginContext): AnalyzerPlugin[] {
+        const plugins: AnalyzerPlugin[] = [];
+
+        for (const specifier of specifiers) {
+            let exported: unknown;
+            try {
+                exported = PluginLoader.getExport(require(PluginLoader.resolve(specifier)));
+            } catch (error) {
+                throw new Error(`Failed to load plugin ${specifier}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+
+            // The module is untrusted, so what a factory returns is validated like a plain export
+            const created: unknown = typeof exported === 'function' ? (exported as (context: PluginContext) => unknown)(context) : exported;
+            for (const plugin of Array.isArray(created) ? created : [created]) {
+                PluginLoader.validate(plugin, specifier);
+                plugins.push(plugin);
+            }
+        }
+
+        return plugins;
+    }
+
+    private static resolve(specifier: string): string {
+        const isPath = specifier.startsWith('.') || path.isAbsolute(specifier);
+        return isPath
+            ? path.resolve(process.cwd(), specifier)
+            : require.resolve(specifier, { paths: [process.cwd()] });
+    }
+
+    /**
+     * Get the default export of an ES module, or what a CommonJS module assigned to module.exports
+     */
+    private static getExport(loaded: unknown): unknown {
+        const isESModule = typeof loaded === 'object' && loaded !== null && '__esModule' in loaded && !!loaded.__esModule;
+        return isESModule && 'default' in loaded && loaded.default ? loaded.default : loaded;
+    }
+
+    private static validate(plugin: unknown, specifier: string): asserts plugin is AnalyzerPlugin {
+        if (typeof plugin !== 'object' || plugin === null) {
+            throw new Error(`Plugin ${specifier} does not export an analyzer`);
+        }
+        if (!('name' in plugin) || typeof plugin.name !== 'string') {
+            throw new Error(`Plugin ${specifier} must have a name`);
+        }
+        if (!('extensions' in plugin) || !Array.isArray(plugin.extensions) ||
+            !plugin.extensions.every((ext: unknown) => typeof ext === 'string' && ext.startsWith('.'))) {
+            throw new Error(`Plugin ${plugin.name} must list its file extensions, e.g. [".astro"]`);
+        }
+        if (!('analyze' in plugin) || typeof plugin.analyze !== 'function') {
+            throw new Error(`Plugin ${plugin.name} must have an analyze(content, document) method`);
+        }
+    }
+}
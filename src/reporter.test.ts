@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CLIAnalyzer } from './analyzer';
+import { CLIConfig, CLIConfigData } from './config';
+import { CLIReporter } from './reporter';
+
+describe('CLIReporter', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-lens-report-'));
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        fs.writeFileSync(path.join(dir, 'a.js'), [
+            'navigator.clipboard.writeText(text);',
+            'function f(x) { return x.at(-1); }'
+        ].join('\n'));
+    });
+    afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    async function formatJUnit(options: Partial<CLIConfigData> = {}): Promise<string> {
+        const config = new CLIConfig().merge(options);
+        const reporter = new CLIReporter(config);
+        const report = await reporter.generateReport(await new CLIAnalyzer(config).analyzeProject(dir));
+        return reporter.formatReport(report, 'junit');
+    }
+
+    function getTestCase(xml: string, name: string): string {
+        const testCase = xml.match(new RegExp(`<testcase [^>]*name="compatibility\\.${name.replace(/\./g, '\\.')}"[\\s\\S]*?</testcase>`));
+        return testCase ? testCase[0] : '';
+    }
+
+    describe('JUnit', () => {
+        it('fails high-risk features only for counted usages', async () => {
+            const xml = await formatJUnit();
+
+            expect(getTestCase(xml, 'Clipboard.writeText')).toContain('<failure');
+            expect(getTestCase(xml, 'String.prototype.at')).not.toContain('<failure');
+            expect(getTestCase(xml, 'String.prototype.at')).toContain('low confidence');
+        });
+
+        it('fails low-confidence usages when countLowConfidenceFeatures is enabled', async () => {
+            const xml = await formatJUnit({ countLowConfidenceFeatures: true });
+            expect(getTestCase(xml, 'String.prototype.at')).toContain('<failure');
+        });
+    });
+});
@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { CLIAnalysisResult } from './analyzer';
 import { CLIConfig } from './config';
+import { CONTEXT_LABELS } from './executionContext';
 import { DetectedFeature, WebFeatureDetails, CompatibilityReport, ReportSummary, FeatureUsage, FileLocation } from './types';
 
 export class CLIReporter {
@@ -21,6 +22,8 @@ export class CLIReporter {
             newlyAvailable: result.summary.newlyAvailable,
             limitedAvailability: result.summary.limitedAvailability,
             riskDistribution: result.riskDistribution,
+            guardedDistribution: result.guardedDistribution,
+            documentationDistribution: result.documentationDistribution,
             fileTypeBreakdown: result.fileTypeBreakdown
         };
 
@@ -107,30 +110,46 @@ export class CLIReporter {
         const featureMap = new Map<string, FeatureUsage>();
 
         for (const feature of features) {
-            const key = `${feature.id}-${feature.type}`;
+            // Several BCD keys can belong to one web feature, so keep them apart
+            // Worker scripts can have different support, so keep them apart too
+            const key = `${feature.bcdKey || feature.id || feature.name}-${feature.type}-${feature.executionContext || 'window'}`;
             
             if (!featureMap.has(key)) {
                 featureMap.set(key, {
                     feature: {
                         name: feature.name,
+                        id: feature.id,
                         description: feature.name, // Use name as description fallback
                         baseline: feature.baselineStatus
                     },
                     locations: [],
                     riskLevel: this.getRiskLevel(feature.baselineStatus.status),
-                    usageCount: 0
+                    usageCount: 0,
+                    guardedCount: 0,
+                    documentationCount: 0,
+                    executionContext: feature.executionContext
                 });
             }
 
             const usage = featureMap.get(key)!;
             usage.usageCount++;
+            if (feature.guarded) {
+                usage.guardedCount!++;
+            }
+            if (feature.documentation) {
+                usage.documentationCount!++;
+            }
             
             if (feature.filePath) {
                 usage.locations.push({
                     file: feature.filePath || '',
                     line: feature.range?.start.line || 0,
                     column: feature.range?.start.character || 0,
-                    context: feature.context
+                    context: feature.context,
+                    confidence: feature.confidence,
+                    guarded: feature.guarded,
+                    generatedFile: feature.generatedFile,
+                    documentation: feature.documentation
                 });
             }
         }
@@ -231,6 +250,36 @@ export class CLIReporter {
         lines.push(`- ✅ **Low Risk**: ${report.summary.riskDistribution?.low || 0} features`);
         lines.push('');
 
+        // Usages behind feature detection or @supports
+        const guarded = report.summary.guardedDistribution;
+        if (guarded && guarded.high + guarded.medium + guarded.low > 0) {
+            lines.push('### Guarded by Feature Detection');
+            lines.push('');
+            lines.push(`- **High Risk**: ${guarded.high} usages`);
+            lines.push(`- **Medium Risk**: ${guarded.medium} usages`);
+            lines.push(`- **Low Risk**: ${guarded.low} usages`);
+            lines.push('');
+            lines.push(this.config.countGuardedFeatures
+                ? 'Guarded usages are included in the risk distribution above.'
+                : 'Guarded usages are not included in the risk distribution above.');
+            lines.push('');
+        }
+
+        // Usages in code blocks of Markdown and MDX documentation
+        const documentation = report.summary.documentationDistribution;
+        if (documentation && documentation.high + documentation.medium + documentation.low > 0) {
+            lines.push('### Documentation Code Blocks');
+            lines.push('');
+            lines.push(`- **High Risk**: ${documentation.high} usages`);
+            lines.push(`- **Medium Risk**: ${documentation.medium} usages`);
+            lines.push(`- **Low Risk**: ${documentation.low} usages`);
+            lines.push('');
+            lines.push(this.config.separateDocumentation
+                ? `Code blocks are not included in the risk distribution above and fail the build on: ${this.config.documentationFailOn}.`
+                : 'Code blocks are included in the risk distribution above.');
+            lines.push('');
+        }
+
         // File type breakdown
         if (report.summary.fileTypeBreakdown && Object.keys(report.summary.fileTypeBreakdown).length > 0) {
             lines.push('### File Type Breakdown');
@@ -252,15 +301,34 @@ export class CLIReporter {
                 
                 lines.push(`### ${riskIcon} ${feature.feature.name}`);
                 lines.push('');
-                lines.push(`- **Status**: ${feature.feature.baseline.status}`);
+                const estimated = feature.feature.baseline.source === 'bcd-heuristic' ? ' (estimated from browser versions)' : '';
+                lines.push(`- **Status**: ${feature.feature.baseline.status}${estimated}`);
+                if (feature.feature.id) {
+                    lines.push(`- **Web Feature**: \`${feature.feature.id}\``);
+                }
                 lines.push(`- **Usage Count**: ${feature.usageCount}`);
+                if (feature.guardedCount) {
+                    lines.push(`- **Guarded Usages**: ${feature.guardedCount}`);
+                }
+                if (feature.documentationCount) {
+                    lines.push(`- **In Documentation**: ${feature.documentationCount}`);
+                }
+                if (feature.executionContext) {
+                    lines.push(`- **Runs In**: ${CONTEXT_LABELS[feature.executionContext]}`);
+                }
                 lines.push('');
                 
                 if (feature.locations.length > 0) {
                     lines.push('**Locations:**');
                     for (const location of feature.locations.slice(0, 10)) { // Limit to first 10
                         const lineInfo = location.line !== undefined ? `:${location.line + 1}` : '';
-                        lines.push(`- \`${location.file}${lineInfo}\``);
+                        const confidenceInfo = location.confidence && location.confidence !== 'high'
+                            ? ` (${location.confidence} confidence: ${location.context})`
+                            : '';
+                        const guardedInfo = location.guarded ? ' (guarded)' : '';
+                        const documentationInfo = location.documentation ? ' (code block)' : '';
+                        const bundleInfo = location.generatedFile ? ` (in bundle \`${location.generatedFile}\`)` : '';
+                        lines.push(`- \`${location.file}${lineInfo}\`${confidenceInfo}${guardedInfo}${documentationInfo}${bundleInfo}`);
                     }
                     if (feature.locations.length > 10) {
                         lines.push(`- ... and ${feature.locations.length - 10} more locations`);
@@ -295,11 +363,20 @@ export class CLIReporter {
             const testName = `compatibility.${feature.feature.name.replace(/\s+/g, '_')}`;
             const className = 'BaselineLens.CompatibilityCheck';
             
-            if (feature.riskLevel === 'high') {
+            // Usages behind feature detection, in allowed documentation or matched at low confidence do not fail
+            const counted = feature.locations.filter(location => this.isCountedLocation(location));
+
+            if (feature.riskLevel === 'high' && counted.length === 0 && feature.locations.length > 0) {
+                const notes = feature.locations.map(location => this.getUncountedReason(location));
+                testCases.push(`
+    <testcase classname="${className}" name="${testName}" time="0">
+      <system-out>High-risk feature not counted (${Array.from(new Set(notes)).join(', ')}): ${feature.feature.name} (${feature.feature.baseline.status})</system-out>
+    </testcase>`);
+            } else if (feature.riskLevel === 'high') {
                 failures++;
-                const locations = feature.locations?.map((loc: any) => 
-                    `${loc.filePath}:${loc.line + 1}`
-                ).join(', ');
+                const locations = counted.map(loc => `${loc.file}:${loc.line + 1}`).join(', ');
+                const uncounted = feature.locations.filter(location => !counted.includes(location))
+                    .map(loc => `${loc.file}:${loc.line + 1} (${this.getUncountedReason(loc)})`);
                 
                 testCases.push(`
     <testcase classname="${className}" name="${testName}" time="0">
@@ -307,7 +384,8 @@ export class CLIReporter {
 Feature: ${feature.feature.name}
 Status: ${feature.feature.baseline.status}
 Locations: ${locations}
-      </failure>
+      </failure>${uncounted.length > 0 ? `
+      <system-out>Not counted: ${uncounted.join(', ')}</system-out>` : ''}
     </testcase>`);
             } else if (feature.riskLevel === 'medium') {
                 testCases.push(`
@@ -334,6 +412,25 @@ Locations: ${locations}
 </testsuite>`;
     }
 
+    /**
+     * Check whether a usage counts towards failure, by the same rules as the
+     * analyzer's risk distribution
+     */
+    private isCountedLocation(location: FileLocation): boolean {
+        if (location.documentation && this.config.separateDocumentation && this.config.documentationFailOn === 'none') {
+            return false;
+        }
+        return (!location.guarded || this.config.countGuardedFeatures) &&
+            (location.confidence !== 'low' || this.config.countLowConfidenceFeatures);
+    }
+
+    private getUncountedReason(location: FileLocation): string {
+        if (location.guarded && !this.config.countGuardedFeatures) {
+            return 'behind feature detection';
+        }
+        return location.documentation ? 'in documentation code blocks' : 'low confidence';
+    }
+
     /**
      * Format single feature as table
      */
@@ -0,0 +1,35 @@
+import features from 'web-features';
+import { CompatibilityDataService } from './compatibilityService';
+
+describe('CompatibilityDataService', () => {
+    const service = new CompatibilityDataService();
+    const officialStatus = { high: 'widely_available', low: 'newly_available' } as const;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        return service.initialize();
+    });
+
+    describe('web-features status', () => {
+        it('resolves BCD keys to the web feature listing them', () => {
+            expect(service.getWebFeatureId('css.at-rules.container')).toBe('container-queries');
+            expect(service.getWebFeatureId('api.Clipboard.writeText')).toBe('async-clipboard');
+        });
+
+        it('reports the official Baseline status of the web feature', () => {
+            const baseline = features['container-queries'].status.baseline;
+
+            expect(service.getBCDStatus('css.at-rules.container')).toMatchObject({
+                status: baseline ? officialStatus[baseline] : 'limited_availability',
+                featureId: 'container-queries',
+                source: 'web-features'
+            });
+        });
+
+        it('labels statuses of keys outside web-features as a heuristic', () => {
+            expect(service.getWebFeatureId('css.properties.text-wrap')).toBeNull();
+            expect(service.getBCDStatus('css.properties.text-wrap')).toMatchObject({ source: 'bcd-heuristic' });
+            expect(service.getBCDStatus('css.properties.text-wrap')!.featureId).toBeUndefined();
+        });
+    });
+});
@@ -2,9 +2,171 @@ import { BaselineStatus, WebFeatureDetails, WebFeature } from '../types';
 import features from 'web-features';
 import bcd from '@mdn/browser-compat-data';
 
+// JavaScript syntax, keyed by the token reported to the user
+const JS_SYNTAX_KEYS: { [syntax: string]: string } = {
+    '??': 'javascript.operators.nullish_coalescing',
+    '??=': 'javascript.operators.nullish_coalescing_assignment',
+    '||=': 'javascript.operators.logical_or_assignment',
+    '&&=': 'javascript.operators.logical_and_assignment',
+    '**': 'javascript.operators.exponentiation',
+    '**=': 'javascript.operators.exponentiation_assignment',
+    '?.': 'javascript.operators.optional_chaining',
+    'import()': 'javascript.operators.import',
+    'import() options': 'javascript.operators.import.options_parameter',
+    'import.meta': 'javascript.operators.import_meta',
+    'new.target': 'javascript.operators.new_target',
+    'top-level await': 'javascript.operators.await.top_level',
+    'class fields': 'javascript.classes.public_class_fields',
+    'static class fields': 'javascript.classes.static_class_fields',
+    '#private fields': 'javascript.classes.private_class_fields',
+    '#private methods': 'javascript.classes.private_class_methods',
+    '#private in': 'javascript.classes.private_class_fields_in',
+    'static blocks': 'javascript.classes.static_initialization_blocks',
+    'decorators': 'javascript.classes.decorators',
+    'using': 'javascript.statements.using',
+    'for await...of': 'javascript.statements.for_await_of',
+    'async generators': 'javascript.statements.async_generator_function',
+    'optional catch binding': 'javascript.statements.try_catch.optional_catch_binding',
+    'import attributes': 'javascript.statements.import.import_attributes',
+    'import assertions': 'javascript.statements.import.import_assertions',
+    'export * as': 'javascript.statements.export.namespace',
+    'hashbang': 'javascript.grammar.hashbang_comments',
+    'numeric separators': 'javascript.grammar.numeric_separators',
+    'BigInt': 'javascript.builtins.BigInt',
+    'RegExp /d flag': 'javascript.builtins.RegExp.hasIndices',
+    'RegExp /s flag': 'javascript.builtins.RegExp.dotAll',
+    'RegExp /v flag': 'javascript.builtins.RegExp.unicodeSets',
+    'RegExp lookbehind': 'javascript.regular_expressions.lookbehind_assertion',
+    'RegExp named groups': 'javascript.regular_expressions.named_capturing_group',
+    'RegExp modifiers': 'javascript.regular_expressions.modifier',
+    'RegExp \\p{...}': 'javascript.regular_expressions.unicode_character_class_escape'
+};
+
+// Interfaces of the objects reachable as globals in a window context
+const GLOBAL_INTERFACES: { [global: string]: string } = {
+    window: 'Window',
+    self: 'Window',
+    globalThis: 'Window',
+    document: 'Document',
+    navigator: 'Navigator',
+    location: 'Location',
+    history: 'History',
+    screen: 'Screen',
+    localStorage: 'Storage',
+    sessionStorage: 'Storage',
+    performance: 'Performance',
+    crypto: 'Crypto',
+    customElements: 'CustomElementRegistry',
+    caches: 'CacheStorage',
+    indexedDB: 'IDBFactory',
+    visualViewport: 'VisualViewport',
+    scheduler: 'Scheduler',
+    speechSynthesis: 'SpeechSynthesis',
+    cookieStore: 'CookieStore'
+};
+
+// Globals whose interface differs in a worker context
+const WORKER_GLOBAL_INTERFACES: { [global: string]: string } = {
+    navigator: 'WorkerNavigator',
+    location: 'WorkerLocation'
+};
+
+// Interfaces only exposed in window contexts, which BCD does not record as such
+const WINDOW_ONLY_INTERFACES = [
+    'Document', 'Element', 'HTMLElement', 'ShadowRoot', 'Range', 'Selection', 'DOMParser', 'XMLSerializer',
+    'MutationObserver', 'IntersectionObserver', 'ResizeObserver', 'Image', 'Audio', 'Option',
+    'AudioContext', 'OfflineAudioContext'
+];
+
+// Interfaces of attributes and method results, keyed by "Interface.member"
+const MEMBER_INTERFACES: { [member: string]: string } = {
+    'Navigator.clipboard': 'Clipboard',
+    'Navigator.serviceWorker': 'ServiceWorkerContainer',
+    'Navigator.geolocation': 'Geolocation',
+    'Navigator.mediaDevices': 'MediaDevices',
+    'Navigator.mediaSession': 'MediaSession',
+    'Navigator.storage': 'StorageManager',
+    'Navigator.permissions': 'Permissions',
+    'Navigator.locks': 'LockManager',
+    'Navigator.credentials': 'CredentialsContainer',
+    'Navigator.wakeLock': 'WakeLock',
+    'Navigator.userActivation': 'UserActivation',
+    'Navigator.userAgentData': 'NavigatorUAData',
+    'Navigator.connection': 'NetworkInformation',
+    'Navigator.gpu': 'GPU',
+    'Navigator.usb': 'USB',
+    'Navigator.hid': 'HID',
+    'Navigator.serial': 'Serial',
+    'Navigator.bluetooth': 'Bluetooth',
+    'Navigator.xr': 'XRSystem',
+    'Document.body': 'HTMLElement',
+    'Document.head': 'HTMLElement',
+    'Document.documentElement': 'HTMLElement',
+    'Document.activeElement': 'HTMLElement',
+    'Document.fonts': 'FontFaceSet',
+    'Document.timeline': 'DocumentTimeline',
+    'Document.querySelector': 'HTMLElement',
+    'Document.getElementById': 'HTMLElement',
+    'Document.createElement': 'HTMLElement',
+    'Document.startViewTransition': 'ViewTransition',
+    'Element.querySelector': 'HTMLElement',
+    'Element.closest': 'HTMLElement',
+    'Element.attachShadow': 'ShadowRoot',
+    'Element.animate': 'Animation',
+    'Element.shadowRoot': 'ShadowRoot',
+    'HTMLElement.attachInternals': 'ElementInternals',
+    'ElementInternals.states': 'CustomStateSet',
+    'ElementInternals.shadowRoot': 'ShadowRoot',
+    'ShadowRoot.host': 'HTMLElement',
+    'Crypto.subtle': 'SubtleCrypto',
+    'Screen.orientation': 'ScreenOrientation',
+    'Window.visualViewport': 'VisualViewport',
+    'WorkerNavigator.storage': 'StorageManager',
+    'WorkerNavigator.permissions': 'Permissions',
+    'WorkerNavigator.locks': 'LockManager',
+    'WorkerNavigator.serviceWorker': 'ServiceWorkerContainer',
+    'WorkerNavigator.gpu': 'GPU',
+    'ServiceWorkerGlobalScope.clients': 'Clients',
+    'ServiceWorkerGlobalScope.registration': 'ServiceWorkerRegistration'
+};
+
+// Parent interfaces, so members inherited from e.g. Element or EventTarget resolve
+const INTERFACE_PARENTS: { [interfaceName: string]: string } = {
+    HTMLElement: 'Element',
+    SVGElement: 'Element',
+    Element: 'Node',
+    Document: 'Node',
+    ShadowRoot: 'DocumentFragment',
+    DocumentFragment: 'Node',
+    Node: 'EventTarget',
+    Window: 'EventTarget',
+    DedicatedWorkerGlobalScope: 'WorkerGlobalScope',
+    SharedWorkerGlobalScope: 'WorkerGlobalScope',
+    ServiceWorkerGlobalScope: 'WorkerGlobalScope',
+    WorkerGlobalScope: 'EventTarget',
+    ServiceWorkerRegistration: 'EventTarget',
+    ServiceWorkerContainer: 'EventTarget',
+    MediaDevices: 'EventTarget',
+    ScreenOrientation: 'EventTarget',
+    VisualViewport: 'EventTarget',
+    FontFaceSet: 'EventTarget',
+    Animation: 'EventTarget',
+    Clipboard: 'EventTarget'
+};
+
+// Options that BCD records somewhere other than an options_<name>_parameter subfeature
+const METHOD_OPTION_KEYS: { [methodKey: string]: { [option: string]: string } } = {
+    'api.CustomElementRegistry.define': { extends: 'api.CustomElementRegistry.builtin_element_support' },
+    'api.Element.attachShadow': { slotAssignment: 'api.ShadowRoot.slotAssignment' }
+};
+
 export class CompatibilityDataService {
     private webFeaturesData = features;
     private bcdCache: Map<string, BaselineStatus> = new Map();
+    private cssTypeIndex: Map<string, string> | null = null;
+    private prototypeMethodIndex: Map<string, string[]> | null = null;
+    private webFeatureIndex: Map<string, string> | null = null;
+    private svgElementIndex: Map<string, string> | null = null;
     private isInitialized: boolean = false;
 
     async initialize(): Promise<void> {
@@ -79,7 +241,8 @@ export class CompatibilityDataService {
 
         return {
             status,
-            support: supportData
+            support: supportData,
+            source: 'bcd-heuristic'
         };
     }
 
@@ -106,7 +269,8 @@ export class CompatibilityDataService {
             baseline_date: status.baseline_low_date,
             low_date: status.baseline_low_date,
             high_date: status.baseline_high_date,
-            support: status.support || {}
+            support: status.support || {},
+            source: 'web-features'
         };
     }
 
@@ -122,7 +286,7 @@ export class CompatibilityDataService {
         try {
             const feature = this.webFeaturesData[featureId];
             if (feature && feature.status) {
-                const baselineStatus = this.convertWebFeatureStatus(feature.status);
+                const baselineStatus = { ...this.convertWebFeatureStatus(feature.status), featureId };
                 this.bcdCache.set(featureId, baselineStatus);
                 return baselineStatus;
             }
@@ -145,7 +309,11 @@ export class CompatibilityDataService {
         try {
             const bcdData = this.getBCDData(bcdKey);
             if (bcdData) {
-                const baselineStatus = this.convertBCDToBaselineStatus(bcdData);
+                // Prefer the official Baseline status of the web feature the key belongs to
+                const featureId = this.getWebFeatureId(bcdKey);
+                const baselineStatus = featureId
+                    ? { ...this.convertWebFeatureStatus(this.webFeaturesData[featureId].status), featureId }
+                    : this.convertBCDToBaselineStatus(bcdData);
                 this.bcdCache.set(bcdKey, baselineStatus);
                 return baselineStatus;
             }
@@ -156,24 +324,173 @@ export class CompatibilityDataService {
         return null;
     }
 
+    /**
+     * Check whether an ID names a web feature, e.g. popover
+     */
+    isWebFeature(featureId: string): boolean {
+        return featureId in this.webFeaturesData;
+    }
+
+    /**
+     * Get the ID of the web feature a BCD key belongs to, e.g. container-queries
+     * for css.at-rules.container. Only exact keys match: a subfeature missing from
+     * web-features may have very different support than its parent.
+     */
+    getWebFeatureId(bcdKey: string): string | null {
+        if (!this.webFeatureIndex) {
+            this.webFeatureIndex = new Map();
+            for (const [id, feature] of Object.entries(this.webFeaturesData)) {
+                for (const key of (feature as any).compat_features || []) {
+                    if (!this.webFeatureIndex.has(key)) {
+                        this.webFeatureIndex.set(key, id);
+                    }
+                }
+            }
+        }
+
+        return this.webFeatureIndex.get(bcdKey) || null;
+    }
+
     mapCSSPropertyToBCD(property: string, value?: string): string {
         const baseKey = `css.properties.${property}`;
         
         if (value) {
-            const valueKey = `${baseKey}.${value.replace(/-/g, '_')}`;
-            if (this.getBCDData(valueKey)) {
-                return valueKey;
+            const possibleKeys = [
+                `${baseKey}.${value}`,
+                `${baseKey}.${value.replace(/-/g, '_')}`
+            ];
+
+            for (const key of possibleKeys) {
+                if (this.getBCDData(key)) {
+                    return key;
+                }
             }
         }
         
         return baseKey;
     }
 
-    mapJSAPIToBCD(apiName: string): string {
+    mapCSSFunctionToBCD(functionName: string, property?: string): string {
+        // Functions such as repeat() or minmax() are recorded under the property that accepts them
+        if (property) {
+            const propertyKey = this.mapCSSPropertyToBCD(property, functionName);
+            if (propertyKey !== `css.properties.${property}`) {
+                return propertyKey;
+            }
+        }
+
+        // Prefer the function over a data type of the same name, e.g. color() over <color>
+        const functionKey = `css.types.${functionName}.${functionName}`;
+        if (this.getBCDData(functionKey)) {
+            return functionKey;
+        }
+
+        return this.getCSSTypeIndex().get(functionName) || `css.types.${functionName}`;
+    }
+
+    mapCSSUnitToBCD(unit: string): string {
+        const unitGroups: { [prefix: string]: string } = {
+            cq: 'container_query_length_units',
+            dv: 'viewport_percentage_units_dynamic',
+            lv: 'viewport_percentage_units_large',
+            sv: 'viewport_percentage_units_small'
+        };
+
+        const group = /^(cq|dv|lv|sv)(w|h|i|b|min|max)$/.exec(unit);
+        if (group) {
+            return `css.types.length.${unitGroups[group[1]]}`;
+        }
+
+        return `css.types.length.${unit}`;
+    }
+
+    /**
+     * Index CSS value functions by name, e.g. oklch -> css.types.color.oklch
+     */
+    private getCSSTypeIndex(): Map<string, string> {
+        if (this.cssTypeIndex) {
+            return this.cssTypeIndex;
+        }
+
+        this.cssTypeIndex = new Map();
+        const types = (bcd as any).css.types;
+
+        // Breadth-first, so a top-level type such as css.types.round wins over nested entries
+        const queue: Array<[string, any]> = Object.entries(types).map(([name, data]) => [`css.types.${name}`, data]);
+        while (queue.length > 0) {
+            const [key, data] = queue.shift()!;
+            const name = key.substring(key.lastIndexOf('.') + 1);
+            if (data.__compat && !this.cssTypeIndex.has(name)) {
+                this.cssTypeIndex.set(name, key);
+            }
+            for (const [child, childData] of Object.entries(data)) {
+                if (child !== '__compat' && childData && typeof childData === 'object') {
+                    queue.push([`${key}.${child}`, childData]);
+                }
+            }
+        }
+
+        return this.cssTypeIndex;
+    }
+
+    mapCSSAtRuleToBCD(atRule: string, subfeature?: string): string {
+        const baseKey = `css.at-rules.${atRule}`;
+
+        if (subfeature) {
+            const possibleKeys = [
+                `${baseKey}.${subfeature}`,
+                `${baseKey}.${subfeature.replace(/-/g, '_')}`
+            ];
+
+            for (const key of possibleKeys) {
+                if (this.getBCDData(key)) {
+                    return key;
+                }
+            }
+
+            return `${baseKey}.${subfeature}`;
+        }
+
+        return baseKey;
+    }
+
+    mapCSSMediaFeatureToBCD(mediaFeature: string): string {
+        // min-/max- prefixed features share the compat data of the base feature
+        const feature = mediaFeature.replace(/^(min|max)-/, '');
+        return this.mapCSSAtRuleToBCD('media', feature);
+    }
+
+    mapCSSSelectorToBCD(selector: string, functional: boolean = false): string {
+        const combinators: { [token: string]: string } = {
+            ' ': 'descendant',
+            '>': 'child',
+            '+': 'next-sibling',
+            '~': 'subsequent-sibling',
+            '||': 'column',
+            '&': 'nesting',
+            '*': 'universal'
+        };
+
+        // Pseudo-classes and pseudo-elements share one namespace in BCD, e.g. ':has' and '::backdrop'
+        const name = combinators[selector] || selector.replace(/^::?/, '').toLowerCase();
+
+        // Some pseudo-classes track their functional form separately, e.g. :host()
+        if (functional && this.getBCDData(`css.selectors.${name}function`)) {
+            return `css.selectors.${name}function`;
+        }
+
+        return `css.selectors.${name}`;
+    }
+
+    /**
+     * Map a global to BCD. Members of the global scope are looked up on the
+     * scope's interface, e.g. api.ServiceWorkerGlobalScope.skipWaiting.
+     */
+    mapJSAPIToBCD(apiName: string, globalScope: string = 'Window'): string {
         const possibleKeys = [
             `api.${apiName}`,
             `javascript.builtins.${apiName}`,
-            `api.Window.${apiName}`,
+            ...this.getInterfaceChain(globalScope).filter(scope => scope !== 'EventTarget').map(scope => `api.${scope}.${apiName}`),
             `api.${apiName}.${apiName}`
         ];
         
@@ -186,6 +503,232 @@ export class CompatibilityDataService {
         return `api.${apiName}`;
     }
 
+    mapJSMemberToBCD(objectName: string, member: string, globalScope: string = 'Window'): string {
+        // Globals such as navigator or document are instances of a Web API interface
+        const globalInterface = this.getGlobalInterface(objectName, globalScope);
+        if (globalInterface) {
+            return this.mapJSMethodToBCD(globalInterface, member);
+        }
+
+        const possibleKeys = [
+            `javascript.builtins.${objectName}.${member}`,
+            `api.${objectName}.${member}`
+        ];
+
+        for (const key of possibleKeys) {
+            if (this.getBCDData(key)) {
+                return key;
+            }
+        }
+
+        return `api.${objectName}.${member}`;
+    }
+
+    mapJSMethodToBCD(typeName: string, method: string): string {
+        const possibleKeys = [
+            `javascript.builtins.${typeName}.${method}`,
+            ...this.getInterfaceChain(typeName).map(interfaceName => `api.${interfaceName}.${method}`)
+        ];
+
+        // Some members of the global scope are only recorded as globals, e.g. api.fetch
+        if (this.isGlobalScope(typeName)) {
+            possibleKeys.push(`api.${method}`);
+        }
+
+        // Int8Array, Float64Array and friends share their methods through %TypedArray%
+        if (/^(Big)?(Int|Uint|Float)\d+(Clamped)?Array$/.test(typeName)) {
+            possibleKeys.push(`javascript.builtins.TypedArray.${method}`);
+        }
+
+        for (const key of possibleKeys) {
+            if (this.getBCDData(key)) {
+                return key;
+            }
+        }
+
+        return `javascript.builtins.${typeName}.${method}`;
+    }
+
+    /**
+     * Map a property of a method's options object to BCD, e.g. delegatesFocus for
+     * api.Element.attachShadow. Returns null for options without compat data.
+     */
+    mapJSOptionToBCD(methodKey: string, option: string): string | null {
+        const possibleKeys = [
+            METHOD_OPTION_KEYS[methodKey]?.[option],
+            `${methodKey}.options_${option}_parameter`,
+            `${methodKey}.options_parameter.options_${option}_parameter`
+        ];
+
+        return possibleKeys.find(key => key && this.getBCDData(key)) || null;
+    }
+
+    mapJSConstructorToBCD(constructorName: string): string {
+        const possibleKeys = [
+            `api.${constructorName}.${constructorName}`,
+            `javascript.builtins.${constructorName}.${constructorName}`
+        ];
+
+        for (const key of possibleKeys) {
+            if (this.getBCDData(key)) {
+                return key;
+            }
+        }
+
+        return this.mapJSAPIToBCD(constructorName);
+    }
+
+    /**
+     * Get the Web API interface a global object implements, e.g. Navigator for
+     * navigator, or WorkerNavigator for navigator in a worker's global scope
+     */
+    getGlobalInterface(globalName: string, globalScope: string = 'Window'): string | null {
+        if (globalScope !== 'Window') {
+            if (globalName === 'self' || globalName === 'globalThis') {
+                return globalScope;
+            }
+            if (WORKER_GLOBAL_INTERFACES.hasOwnProperty(globalName)) {
+                return WORKER_GLOBAL_INTERFACES[globalName];
+            }
+            const scopeMember = this.getInterfaceChain(globalScope)
+                .map(scope => MEMBER_INTERFACES[`${scope}.${globalName}`])
+                .find(Boolean);
+            if (scopeMember) {
+                return scopeMember;
+            }
+            if (this.isWindowOnlyGlobal(globalName, globalScope)) {
+                return null;
+            }
+        }
+
+        return GLOBAL_INTERFACES.hasOwnProperty(globalName) ? GLOBAL_INTERFACES[globalName] : null;
+    }
+
+    /**
+     * Check whether a global exists in window contexts but not in the given
+     * worker scope, e.g. document or localStorage. requestAnimationFrame is
+     * window-only in a service worker, but dedicated workers have it too.
+     */
+    isWindowOnlyGlobal(globalName: string, globalScope: string): boolean {
+        if (globalScope === 'Window') {
+            return false;
+        }
+        if (WINDOW_ONLY_INTERFACES.includes(globalName)) {
+            return true;
+        }
+
+        return !!this.getBCDData(`api.Window.${globalName}`) &&
+            !this.getBCDData(`api.${globalName}`) &&
+            !this.getInterfaceChain(globalScope).some(scope => this.getBCDData(`api.${scope}.${globalName}`));
+    }
+
+    /**
+     * Check whether a member of a global exists in window contexts but not in
+     * the given worker scope, e.g. self.localStorage, or navigator.sendBeacon
+     * since WorkerNavigator lacks it
+     */
+    isWindowOnlyMember(objectName: string, member: string, globalScope: string): boolean {
+        const workerInterface = this.getGlobalInterface(objectName, globalScope);
+        if (globalScope === 'Window' || !workerInterface) {
+            return false;
+        }
+        if (workerInterface === globalScope) {
+            return this.isWindowOnlyGlobal(member, globalScope);
+        }
+
+        const windowInterface = this.getGlobalInterface(objectName);
+        return !!windowInterface && windowInterface !== workerInterface &&
+            !!this.getBCDData(this.mapJSMethodToBCD(windowInterface, member)) &&
+            !this.getBCDData(this.mapJSMethodToBCD(workerInterface, member));
+    }
+
+    /**
+     * Check whether an interface is the global object of a context, e.g. Window
+     * or ServiceWorkerGlobalScope
+     */
+    isGlobalScope(interfaceName: string): boolean {
+        return interfaceName === 'Window' || this.getInterfaceChain(interfaceName).includes('WorkerGlobalScope');
+    }
+
+    /**
+     * Get the worker_support subfeature that records a Web API's support in
+     * workers, from the key itself or its nearest ancestor. Most APIs have none,
+     * in which case their support is the same everywhere.
+     */
+    getWorkerSupportKey(bcdKey: string): string | null {
+        if (!bcdKey.startsWith('api.')) {
+            return null;
+        }
+
+        for (let key = bcdKey; key.includes('.'); key = key.slice(0, key.lastIndexOf('.'))) {
+            if (this.getBCDData(`${key}.worker_support`)) {
+                return `${key}.worker_support`;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Get the interface of an attribute or method result, e.g. Clipboard for
+     * Navigator.clipboard. Members of the global scope resolve like globals.
+     */
+    getMemberInterface(interfaceName: string, member: string): string | null {
+        for (const candidate of this.getInterfaceChain(interfaceName)) {
+            const key = `${candidate}.${member}`;
+            if (MEMBER_INTERFACES.hasOwnProperty(key)) {
+                return MEMBER_INTERFACES[key];
+            }
+        }
+
+        return this.isGlobalScope(interfaceName) ? this.getGlobalInterface(member, interfaceName) : null;
+    }
+
+    private getInterfaceChain(interfaceName: string): string[] {
+        const chain = [interfaceName];
+        for (let current = interfaceName; ; ) {
+            // Specific element interfaces such as HTMLButtonElement are not all listed
+            const parent = INTERFACE_PARENTS[current] ||
+                (/^HTML\w+Element$/.test(current) ? 'HTMLElement' : /^SVG\w+Element$/.test(current) ? 'SVGElement' : null);
+            if (!parent) {
+                return chain;
+            }
+            chain.push(parent);
+            current = parent;
+        }
+    }
+
+    /**
+     * Get every built-in prototype method with the given name, e.g. "at" matches
+     * Array, String and TypedArray. Used when the receiver type is unknown. Web API
+     * members are left out: nearly every method name, e.g. get or forEach, is also
+     * a member of some rarely supported interface.
+     */
+    getPrototypeMethodCandidates(method: string): string[] {
+        if (!this.prototypeMethodIndex) {
+            this.prototypeMethodIndex = new Map();
+
+            for (const [typeName, typeData] of Object.entries((bcd as any).javascript.builtins)) {
+                for (const [member, memberData] of Object.entries(typeData as any)) {
+                    const specUrl = (memberData as any)?.__compat?.spec_url;
+                    const specUrls: string[] = Array.isArray(specUrl) ? specUrl : [specUrl || ''];
+
+                    // BCD does not flag static members, but their spec anchors lack ".prototype."
+                    if (member !== '__compat' && specUrls.some(url => url.toLowerCase().includes('.prototype.'))) {
+                        const candidates = this.prototypeMethodIndex.get(member) || [];
+                        candidates.push(`javascript.builtins.${typeName}.${member}`);
+                        this.prototypeMethodIndex.set(member, candidates);
+                    }
+                }
+            }
+        }
+
+        return this.prototypeMethodIndex.get(method) || [];
+    }
+
+    mapJSSyntaxToBCD(syntax: string): string {
+        return JS_SYNTAX_KEYS[syntax] || `javascript.${syntax}`;
+    }
+
     mapHTMLElementToBCD(element: string, attribute?: string): string {
         const baseKey = `html.elements.${element}`;
         
@@ -208,6 +751,73 @@ export class CompatibilityDataService {
         return baseKey;
     }
 
+    /**
+     * Map an enumerated attribute value, e.g. `<input type="color">` to
+     * html.elements.input.type_color or `<link rel="modulepreload">` to
+     * html.elements.link.rel.modulepreload. Returns null if BCD has no entry.
+     */
+    mapHTMLAttributeValueToBCD(element: string, attribute: string, value: string): string | null {
+        const baseKey = `html.elements.${element}`;
+        const possibleKeys = [
+            `${baseKey}.${attribute}.${value}`,
+            `${baseKey}.${attribute}_${value}`,
+            `${baseKey}.${attribute}.${value.replace(/-/g, '_')}`,
+            `html.global_attributes.${attribute}.${value}`,
+            `html.global_attributes.${attribute}.${value.replace(/-/g, '_')}`
+        ];
+
+        for (const key of possibleKeys) {
+            if (this.getBCDData(key)) {
+                return key;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Map an SVG element, or an attribute of one, to BCD, e.g. `feDropShadow` to
+     * svg.elements.feDropShadow or `xlink:href` on `<use>` to
+     * svg.elements.use.xlink_href. Element names are matched regardless of case,
+     * since HTML parsers may lowercase them. Returns null if BCD has no entry.
+     */
+    mapSVGElementToBCD(element: string, attribute?: string): string | null {
+        if (!this.svgElementIndex) {
+            this.svgElementIndex = new Map(Object.keys((bcd as any).svg.elements).map(name => [name.toLowerCase(), name]));
+        }
+
+        const name = this.svgElementIndex.get(element.toLowerCase());
+        if (!name) {
+            return null;
+        }
+        if (!attribute) {
+            return `svg.elements.${name}`;
+        }
+
+        const attributeKey = attribute.replace(':', '_');
+        const possibleKeys = [
+            `svg.elements.${name}.${attributeKey}`,
+            `svg.global_attributes.${attributeKey}`
+        ];
+
+        return possibleKeys.find(key => !attributeKey.startsWith('__') && this.getBCDData(key)) || null;
+    }
+
+    /**
+     * Map a web app manifest member, or a keyword value of one, to BCD, e.g.
+     * ["display_override", "window-controls-overlay"]. Newer BCD releases keep
+     * manifest data under manifests.webapp rather than html.manifest, so both are
+     * tried. Returns null if BCD has no entry.
+     */
+    mapManifestMemberToBCD(memberPath: string[]): string | null {
+        if (!memberPath.every(name => /^[a-z][a-z0-9_-]*$/i.test(name))) {
+            return null;
+        }
+
+        const member = memberPath.join('.');
+        return [`manifests.webapp.${member}`, `html.manifest.${member}`].find(key => this.getBCDData(key)) || null;
+    }
+
     getFeatureDetails(featureId: string): WebFeatureDetails | null {
         if (!this.isInitialized) {
             return null;
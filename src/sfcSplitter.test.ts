@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CLIAnalyzer } from './analyzer';
+import { SFCSplitter } from './sfcSplitter';
+import { DetectedFeature } from './types';
+
+describe('SFCSplitter', () => {
+    const analyzer = new CLIAnalyzer();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-lens-sfc-'));
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        return analyzer.initialize();
+    });
+    afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    async function analyze(fileName: string, content: string): Promise<DetectedFeature[]> {
+        const filePath = path.join(dir, fileName);
+        fs.writeFileSync(filePath, content);
+        return analyzer.analyzeFile(filePath);
+    }
+
+    function findKey(features: DetectedFeature[], bcdKey: string): DetectedFeature | undefined {
+        return features.find(feature => feature.bcdKey === bcdKey);
+    }
+
+    describe('Vue', () => {
+        const component = [
+            '<template>',
+            '  <dialog open></dialog>',
+            '  <Dialog popover />',
+            '  <keep-alive><search></search></keep-alive>',
+            '</template>',
+            '',
+            '<script setup lang="ts">',
+            'const copy: object = structuredClone(data);',
+            '</script>',
+            '',
+            '<style lang="scss" scoped>',
+            '$gap: 4px;',
+            '.a { text-wrap: balance; }',
+            '</style>',
+            '<i18n>{ "structuredClone": 1 }</i18n>'
+        ].join('\n');
+
+        it('splits blocks by tag and lang', () => {
+            expect(SFCSplitter.splitVue(component).map(region => region.languageId)).toEqual(['html', 'typescript', 'scss']);
+        });
+
+        it('reports features of each block at their position in the .vue file', async () => {
+            const features = await analyze('Component.vue', component);
+
+            expect(findKey(features, 'html.elements.dialog')).toMatchObject({ line: 1, column: 3 });
+            expect(findKey(features, 'api.structuredClone')).toMatchObject({ line: 7, column: 21 });
+            expect(findKey(features, 'css.properties.text-wrap')).toMatchObject({ line: 12, column: 5 });
+            expect(features.filter(feature => feature.bcdKey === 'api.structuredClone')).toHaveLength(1);
+        });
+
+        it('does not report components as elements or their props as attributes', async () => {
+            const features = await analyze('Components.vue', component);
+
+            expect(features.filter(feature => feature.bcdKey === 'html.elements.dialog')).toHaveLength(1);
+            expect(findKey(features, 'html.global_attributes.popover')).toBeUndefined();
+            expect(findKey(features, 'html.elements.search')).toMatchObject({ line: 3, column: 15 });
+        });
+    });
+
+    describe('Svelte', () => {
+        const component = [
+            '<script>',
+            '  const copy = structuredClone(data);',
+            '</script>',
+            '',
+            '<svelte:window on:keydown={handle} />',
+            '{#if open}',
+            '  <dialog bind:this={el} on:close={close}></dialog>',
+            '  <Dialog popover />',
+            '{/if}',
+            '',
+            '<style>',
+            '  .a { text-wrap: balance; }',
+            '</style>'
+        ].join('\n');
+
+        it('reports script, style and markup features at their position in the .svelte file', async () => {
+            const features = await analyze('Component.svelte', component);
+
+            expect(findKey(features, 'api.structuredClone')).toMatchObject({ line: 1, column: 15 });
+            expect(findKey(features, 'css.properties.text-wrap')).toMatchObject({ line: 11, column: 7 });
+            expect(findKey(features, 'html.elements.dialog')).toMatchObject({ line: 6, column: 3 });
+        });
+
+        it('does not report directives, svelte: elements or components', async () => {
+            const features = await analyze('Directives.svelte', component);
+
+            expect(features.filter(feature => feature.type === 'html').map(feature => feature.bcdKey)).toEqual(['html.elements.dialog']);
+        });
+    });
+});
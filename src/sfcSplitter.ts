@@ -0,0 +1,193 @@
+import * as parse5 from 'parse5';
+import { DefaultTreeAdapterMap } from 'parse5';
+import { EmbeddedRegion } from './embeddedRegion';
+import { LineIndex } from './lineIndex';
+
+type HTMLElementNode = DefaultTreeAdapterMap['element'];
+
+// Language IDs for the lang="" attribute of <script> blocks
+const SCRIPT_LANGUAGES: { [lang: string]: string } = {
+    js: 'javascript',
+    javascript: 'javascript',
+    jsx: 'javascriptreact',
+    ts: 'typescript',
+    typescript: 'typescript',
+    tsx: 'typescriptreact'
+};
+
+// Language IDs for the lang="" attribute of <style> blocks
+const STYLE_LANGUAGES: { [lang: string]: string } = {
+    css: 'css',
+    scss: 'scss',
+    sass: 'sass',
+    less: 'less'
+};
+
+/**
+ * Replace every character except line breaks, so offsets and line numbers are kept
+ */
+function blank(text: string, fill: string): string {
+    return text.replace(/[^\r\n]/g, fill);
+}
+
+/**
+ * Splits single-file components into the template, script and style blocks
+ * they are made of, so each block can go to the analyzer for its language
+ */
+export class SFCSplitter {
+
+    /**
+     * Split a Vue single-file component. Blocks in a language we cannot analyze,
+     * such as `<template lang="pug">` or `<style lang="stylus">`, are left out,
+     * as are custom blocks like `<i18n>`.
+     */
+    static splitVue(content: string): EmbeddedRegion[] {
+        const fragment = parse5.parseFragment(content, { sourceCodeLocationInfo: true });
+        const lines = new LineIndex(content);
+        const regions: EmbeddedRegion[] = [];
+
+        for (const node of fragment.childNodes) {
+            if (!('tagName' in node)) {
+                continue;
+            }
+
+            const lang = this.getAttribute(node, 'lang')?.toLowerCase();
+            let languageId: string | undefined;
+
+            switch (node.tagName) {
+                case 'template':
+                    languageId = !lang || lang === 'html' ? 'html' : undefined;
+                    break;
+                case 'script':
+                    languageId = SCRIPT_LANGUAGES[lang || 'js'];
+                    break;
+                case 'style':
+                    languageId = STYLE_LANGUAGES[lang || 'css'];
+                    break;
+            }
+
+            const region = languageId && this.getBlockRegion(node, content, languageId, lines);
+            if (region) {
+                regions.push(region);
+            }
+        }
+
+        return regions;
+    }
+
+    /**
+     * Split a Svelte component. The top-level `<script>` and `<style>` blocks
+     * become their own regions. What remains is the markup, with those blocks and
+     * every `{...}` template expression blanked out so `{#if a < b}` is not read
+     * as a tag, while positions stay those of the original file.
+     *
+     * Blocks are found with a pattern rather than parse5, because an HTML parser
+     * ignores the self-closing slash on `<svelte:window />` or `<Component />` and
+     * nests everything after it inside that element.
+     */
+    static splitSvelte(content: string): EmbeddedRegion[] {
+        const lines = new LineIndex(content);
+        const regions: EmbeddedRegion[] = [];
+        const headRanges = [...content.matchAll(/<svelte:head[\s>][\s\S]*?<\/svelte:head\s*>/gi)]
+            .map(match => [match.index!, match.index! + match[0].length]);
+        let markup = content;
+
+        for (const match of content.matchAll(/<(script|style)(\s[^>]*)?>([\s\S]*?)<\/\1\s*>/gi)) {
+            const startOffset = match.index!;
+            const endOffset = startOffset + match[0].length;
+
+            // Scripts and styles inside <svelte:head> end up in the page head as they are
+            if (headRanges.some(([start, end]) => startOffset > start && startOffset < end)) {
+                continue;
+            }
+
+            const tagName = match[1].toLowerCase();
+            const lang = (match[2] || '').match(/\blang\s*=\s*["']?([\w-]+)/i)?.[1].toLowerCase();
+            const languageId = tagName === 'script' ? SCRIPT_LANGUAGES[lang || 'js'] : STYLE_LANGUAGES[lang || 'css'];
+            if (languageId) {
+                const contentOffset = startOffset + match[0].indexOf('>') + 1;
+                regions.push({
+                    content: match[3],
+                    languageId,
+                    start: lines.positionAt(contentOffset)
+                });
+            }
+
+            markup = markup.slice(0, startOffset) + blank(match[0], ' ') + markup.slice(endOffset);
+        }
+
+        regions.push({
+            content: this.blankTemplateExpressions(markup),
+            languageId: 'svelte',
+            start: { line: 0, character: 0 }
+        });
+
+        return regions;
+    }
+
+    /**
+     * Replace each `{...}` expression with underscores of the same length. An
+     * attribute such as `value={x}` keeps a placeholder value, and braces inside
+     * string literals within the expression are not counted.
+     */
+    private static blankTemplateExpressions(markup: string): string {
+        let result = '';
+        let depth = 0;
+        let quote: string | null = null;
+        let expressionStart = 0;
+
+        for (let i = 0; i < markup.length; i++) {
+            const char = markup[i];
+
+            if (depth === 0) {
+                if (char === '{') {
+                    depth = 1;
+                    expressionStart = i;
+                } else {
+                    result += char;
+                }
+                continue;
+            }
+
+            if (quote) {
+                if (char === '\\') {
+                    i++;
+                } else if (char === quote) {
+                    quote = null;
+                }
+            } else if (char === '"' || char === "'" || char === '`') {
+                quote = char;
+            } else if (char === '{') {
+                depth++;
+            } else if (char === '}' && --depth === 0) {
+                result += blank(markup.slice(expressionStart, i + 1), '_');
+            }
+        }
+
+        // An unterminated expression runs to the end of the file
+        return depth > 0 ? result + blank(markup.slice(expressionStart), '_') : result;
+    }
+
+    private static getAttribute(element: HTMLElementNode, name: string): string | undefined {
+        return element.attrs.find(attr => attr.name === name)?.value;
+    }
+
+    /**
+     * Get the text between a block's start and end tags, without the tags themselves
+     */
+    private static getBlockRegion(element: HTMLElementNode, content: string, languageId: string, lines: LineIndex): EmbeddedRegion | null {
+        const location = element.sourceCodeLocation;
+        if (!location?.startTag) {
+            return null;
+        }
+
+        const startOffset = location.startTag.endOffset;
+        const endOffset = location.endTag ? location.endTag.startOffset : location.endOffset;
+
+        return {
+            content: content.slice(startOffset, endOffset),
+            languageId,
+            start: lines.positionAt(startOffset)
+        };
+    }
+}
@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SourceMapGenerator } from 'source-map-js';
+import { CLIAnalyzer } from './analyzer';
+import { CLIConfig } from './config';
+import { SourceMapResolver } from './sourceMapResolver';
+import { DetectedFeature } from './types';
+
+describe('SourceMapResolver', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-lens-bundle-'));
+    const bundlePath = path.join(dir, 'dist', 'out.js');
+    const sourcePath = path.join(dir, 'src', 'in.js');
+
+    // The bundle's only line comes from the second line of src/in.js
+    function writeBundle(source: string): void {
+        const generator = new SourceMapGenerator({ file: 'out.js' });
+        generator.addMapping({ source, generated: { line: 1, column: 0 }, original: { line: 2, column: 2 } });
+
+        fs.writeFileSync(bundlePath, 'structuredClone(a);\n//# sourceMappingURL=out.js.map\n');
+        fs.writeFileSync(`${bundlePath}.map`, generator.toString());
+    }
+
+    function createFeature(): DetectedFeature {
+        return {
+            name: 'structuredClone',
+            type: 'javascript',
+            line: 0,
+            column: 0,
+            baselineStatus: { status: 'newly_available' },
+            range: { start: { line: 0, character: 0 }, end: { line: 0, character: 15 } },
+            filePath: bundlePath
+        };
+    }
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        fs.mkdirSync(path.dirname(bundlePath), { recursive: true });
+        fs.mkdirSync(path.dirname(sourcePath), { recursive: true });
+        fs.writeFileSync(sourcePath, 'const a = {};\n  structuredClone(a);\n');
+    });
+    afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    it('maps a feature to its source position, keeping the bundle in generatedFile', () => {
+        writeBundle('../src/in.js');
+        const resolver = SourceMapResolver.load(bundlePath, fs.readFileSync(bundlePath, 'utf8'), dir)!;
+
+        expect(resolver.mapFeature(createFeature())).toMatchObject({
+            filePath: sourcePath,
+            line: 1,
+            column: 2,
+            range: { start: { line: 1, character: 2 }, end: { line: 1, character: 17 } },
+            generatedFile: bundlePath
+        });
+    });
+
+    it('resolves namespaced sources against the project root', () => {
+        writeBundle('webpack://app/./src/in.js');
+        const resolver = SourceMapResolver.load(bundlePath, fs.readFileSync(bundlePath, 'utf8'), dir)!;
+
+        expect(resolver.mapFeature(createFeature()).filePath).toBe(sourcePath);
+    });
+
+    it('keeps the bundle location when the source file does not exist', () => {
+        writeBundle('webpack://app/./src/missing.js');
+        const resolver = SourceMapResolver.load(bundlePath, fs.readFileSync(bundlePath, 'utf8'), dir)!;
+
+        expect(resolver.mapFeature(createFeature())).toEqual(createFeature());
+    });
+
+    it('returns null for files without a source map', () => {
+        expect(SourceMapResolver.load(sourcePath, fs.readFileSync(sourcePath, 'utf8'), dir)).toBeNull();
+    });
+
+    it('analyzes only the bundle in bundle mode and reports each feature once, at its source', async () => {
+        writeBundle('webpack://app/./src/in.js');
+        const analyzer = new CLIAnalyzer(new CLIConfig().merge({ analyzeBundles: true }));
+        const result = await analyzer.analyzeProject(dir);
+
+        expect(result.totalFiles).toBe(1);
+        expect(result.features.filter(feature => feature.bcdKey === 'api.structuredClone')).toEqual([
+            expect.objectContaining({ filePath: sourcePath, line: 1, column: 2, generatedFile: bundlePath })
+        ]);
+    });
+});
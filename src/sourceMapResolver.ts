@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { SourceMapConsumer, RawSourceMap } from 'source-map-js';
+import { DetectedFeature } from './types';
+import { SourcePosition } from './lineIndex';
+
+/**
+ * Maps features found in a built bundle back to the source files it was built
+ * from, using the bundle's source map
+ */
+export class SourceMapResolver {
+    private consumer: SourceMapConsumer;
+    private existingFiles: Map<string, boolean> = new Map();
+
+    private constructor(private map: RawSourceMap, private mapDirectory: string, private projectRoot: string) {
+        this.consumer = new SourceMapConsumer(map);
+    }
+
+    /**
+     * Load the source map of a bundle from its sourceMappingURL comment, which may
+     * be an inline data URL, or from a `.map` file next to it. Returns null if the
+     * bundle has no readable source map. Sources with a bundler namespace, e.g.
+     * webpack://my-app/./src/index.js, are resolved against the project root.
+     */
+    static load(filePath: string, content: string, projectRoot: string): SourceMapResolver | null {
+        const directory = path.dirname(filePath);
+        const url = content.match(/[#@]\s*sourceMappingURL=([^\s*]+)/g)?.pop()?.replace(/^[#@]\s*sourceMappingURL=/, '');
+
+        try {
+            if (url?.startsWith('data:')) {
+                const [header, data] = url.split(',', 2);
+                const json = header.endsWith(';base64') ? Buffer.from(data, 'base64').toString('utf8') : decodeURIComponent(data);
+                return new SourceMapResolver(JSON.parse(json), directory, projectRoot);
+            }
+
+            const mapPath = url ? path.resolve(directory, decodeURIComponent(url)) : `${filePath}.map`;
+            if (!fs.existsSync(mapPath)) {
+                return null;
+            }
+
+            return new SourceMapResolver(JSON.parse(fs.readFileSync(mapPath, 'utf8')), path.dirname(mapPath), projectRoot);
+        } catch (error) {
+            // Ignore unreadable source maps
+            return null;
+        }
+    }
+
+    /**
+     * Move a feature to its original source file and position. The bundle
+     * position is kept in generatedFile. Features in code the source map does
+     * not cover, such as bundler runtime helpers, or whose source file does not
+     * exist in the project, stay where they are.
+     */
+    mapFeature(feature: DetectedFeature): DetectedFeature {
+        const start = this.originalPositionFor({ line: feature.line, character: feature.column });
+        if (!start || !this.fileExists(start.file)) {
+            return feature;
+        }
+
+        // Minifiers rename identifiers, so fall back to the feature's length on one line
+        const end = feature.range?.end && this.originalPositionFor(feature.range.end);
+        const length = feature.range ? feature.range.end.character - feature.range.start.character : 0;
+        const originalEnd = end && end.file === start.file && end.line === start.line && end.character > start.character
+            ? { line: end.line, character: end.character }
+            : { line: start.line, character: start.character + Math.max(length, 0) };
+
+        return {
+            ...feature,
+            filePath: start.file,
+            line: start.line,
+            column: start.character,
+            range: { start: { line: start.line, character: start.character }, end: originalEnd },
+            generatedFile: feature.generatedFile || feature.filePath
+        };
+    }
+
+    private originalPositionFor(position: SourcePosition): (SourcePosition & { file: string }) | null {
+        const original = this.consumer.originalPositionFor({
+            line: position.line + 1,
+            column: position.character,
+            bias: SourceMapConsumer.GREATEST_LOWER_BOUND
+        });
+
+        if (!original.source || original.line === null) {
+            return null;
+        }
+
+        return {
+            file: this.resolveSource(original.source),
+            line: original.line - 1,
+            character: original.column
+        };
+    }
+
+    /**
+     * Resolve a source entry to a file path. Bundlers often prefix sources with a
+     * scheme and namespace, e.g. webpack://my-app/./src/index.js, and then the
+     * path is relative to the project rather than to the source map.
+     */
+    private resolveSource(source: string): string {
+        if (source.startsWith('file://')) {
+            return fileURLToPath(source);
+        }
+
+        const namespaced = source.match(/^[a-z][a-z0-9+.-]*:\/\/[^/]*\/(.*)$/i);
+        if (namespaced) {
+            return path.resolve(this.projectRoot, namespaced[1]);
+        }
+
+        return path.resolve(this.mapDirectory, this.map.sourceRoot || '', source);
+    }
+
+    private fileExists(filePath: string): boolean {
+        if (!this.existingFiles.has(filePath)) {
+            this.existingFiles.set(filePath, fs.existsSync(filePath));
+        }
+        return this.existingFiles.get(filePath)!;
+    }
+}
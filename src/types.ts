@@ -1,3 +1,8 @@
+/**
+ * The kind of global scope a script runs in
+ */
+export type ExecutionContext = 'window' | 'worker' | 'dedicated_worker' | 'shared_worker' | 'service_worker';
+
 export interface DetectedFeature {
     name: string;
     type: 'css' | 'javascript' | 'html';
@@ -10,11 +15,18 @@ export interface DetectedFeature {
     polyfillUrl?: string;
     suggestion?: string;
     id?: string;
+    bcdKey?: string;
     range?: any;
     context?: string;
     locations?: any[];
     baseline?: BaselineStatus;
     riskLevel?: string;
+    confidence?: 'high' | 'medium' | 'low';
+    guarded?: boolean;
+    generatedFile?: string;
+    documentation?: boolean;
+    /** Set for features of scripts that run in a worker */
+    executionContext?: ExecutionContext;
 }
 
 export interface BaselineStatus {
@@ -25,6 +37,8 @@ export interface BaselineStatus {
     baseline_date?: string;
     low_date?: string;
     high_date?: string;
+    featureId?: string;
+    source?: 'web-features' | 'bcd-heuristic';
 }
 
 export interface BrowserSupport {
@@ -74,6 +88,16 @@ export interface ReportSummary {
         medium: number;
         low: number;
     };
+    guardedDistribution?: {
+        high: number;
+        medium: number;
+        low: number;
+    };
+    documentationDistribution?: {
+        high: number;
+        medium: number;
+        low: number;
+    };
     fileTypeBreakdown?: { [key: string]: number };
 }
 
@@ -86,10 +110,14 @@ export interface FeatureUsage {
     riskLevel?: string;
     feature: {
         name: string;
+        id?: string;
         description?: string;
         baseline: BaselineStatus;
     };
     usageCount: number;
+    guardedCount?: number;
+    documentationCount?: number;
+    executionContext?: ExecutionContext;
 }
 
 export interface FileLocation {
@@ -98,6 +126,10 @@ export interface FileLocation {
     column: number;
     context?: string;
     filePath?: string;
+    confidence?: 'high' | 'medium' | 'low';
+    guarded?: boolean;
+    generatedFile?: string;
+    documentation?: boolean;
 }
 
 export interface AnalysisError {